@@ -1,6 +1,13 @@
 import type { NextConfig } from "next";
 
+// Identifies this build; the service worker names its caches after it so a deploy drops stale assets
+const buildId = process.env.BUILD_ID || Date.now().toString(36);
+
 const nextConfig: NextConfig = {
+  generateBuildId: async () => buildId,
+  env: {
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
   experimental: {
     turbopackUseSystemTlsCerts: true,
   },
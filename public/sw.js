@@ -0,0 +1,145 @@
+/**
+ * Offline support. Pages and backend reads are fetched from the network first and cached;
+ * when the network fails, the cached copy is served and the page is told it is seeing cached data.
+ * Registered by OfflineContext with the backend base URL in the `api` query parameter and the
+ * build id in `v`; each build gets its own caches and the previous build's are deleted on activation.
+ */
+
+const SCRIPT_PARAMS = new URL(self.location.href).searchParams;
+const CACHE_VERSION = SCRIPT_PARAMS.get('v') || 'v1';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const PAGE_CACHE = `pages-${CACHE_VERSION}`;
+const API_CACHE = `api-${CACHE_VERSION}`;
+const CACHES = [SHELL_CACHE, PAGE_CACHE, API_CACHE];
+
+// Pages that work from cached data alone
+const SHELL_URLS = ['/', '/reading-list'];
+// Oldest entries are dropped past these sizes; the precached shell pages are always kept
+const MAX_SHELL_ENTRIES = 150;
+const MAX_PAGE_ENTRIES = 50;
+const MAX_API_ENTRIES = 200;
+
+const API_BASE_URL = SCRIPT_PARAMS.get('api') || '';
+
+let servingFromCache = false;
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then(cache => cache.addAll(SHELL_URLS))
+      .catch(err => console.warn('Could not precache the app shell:', err))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => !CACHES.includes(key)).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Scripts and styles loaded before the worker took control, sent by the page
+self.addEventListener('message', event => {
+  if (event.data && event.data.type === 'cache-urls' && Array.isArray(event.data.urls)) {
+    event.waitUntil(
+      caches.open(SHELL_CACHE).then(cache =>
+        Promise.all(event.data.urls.map(url =>
+          cache.match(url).then(cached => cached || cache.add(url).catch(() => undefined))
+        ))
+      ).then(() => trimCache(SHELL_CACHE, MAX_SHELL_ENTRIES))
+    );
+  }
+});
+
+async function trimCache(name, maxEntries) {
+  const cache = await caches.open(name);
+  const keys = (await cache.keys()).filter(key => !SHELL_URLS.includes(new URL(key.url).pathname));
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+}
+
+async function notifyClients(message, clientId) {
+  const clients = clientId
+    ? [await self.clients.get(clientId)].filter(Boolean)
+    : await self.clients.matchAll({ type: 'window' });
+  clients.forEach(client => client.postMessage(message));
+}
+
+async function networkFirst(event, cacheName, maxEntries, matchOptions) {
+  const { request } = event;
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const copy = response.clone();
+      event.waitUntil(
+        caches.open(cacheName)
+          .then(cache => cache.put(request, copy))
+          .then(() => trimCache(cacheName, maxEntries))
+      );
+      if (servingFromCache) {
+        servingFromCache = false;
+        event.waitUntil(notifyClients({ type: 'network-restored' }));
+      }
+    }
+    return response;
+  } catch (err) {
+    const cached = await caches.match(request, matchOptions);
+    if (!cached) throw err;
+
+    servingFromCache = true;
+    event.waitUntil(notifyClients({ type: 'cached-response', url: request.url }, event.clientId || event.resultingClientId));
+    return cached;
+  }
+}
+
+async function cacheFirst(event) {
+  const { request } = event;
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const copy = response.clone();
+    event.waitUntil(
+      caches.open(SHELL_CACHE)
+        .then(cache => cache.put(request, copy))
+        .then(() => trimCache(SHELL_CACHE, MAX_SHELL_ENTRIES))
+    );
+  }
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  // Writes go straight to the network; the page queues them while offline
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (API_BASE_URL && request.url.startsWith(API_BASE_URL)) {
+    // Event streams never finish, so they can't be cached
+    if (request.headers.get('Accept') === 'text/event-stream' || url.pathname.endsWith('/events')) return;
+    // Requests the page marked as not worth keeping, like the dashboard's count probes
+    if (request.cache === 'no-store') return;
+    event.respondWith(networkFirst(event, API_CACHE, MAX_API_ENTRIES));
+    return;
+  }
+
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  // Build assets have content hashes in their names, so a cached copy never goes stale
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(event));
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    // Filters live in the query string and are read on the client, so any cached copy of the page will do
+    event.respondWith(networkFirst(event, PAGE_CACHE, MAX_PAGE_ENTRIES, { ignoreSearch: true }));
+    return;
+  }
+
+  // Route payloads fetched during client-side navigation
+  event.respondWith(networkFirst(event, PAGE_CACHE, MAX_PAGE_ENTRIES));
+});
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useAlerts } from '@/context/AlertContext';
+import { useCategories } from '@/context/CategoryContext';
+import { EMPTY_SEARCH_FILTERS, buildHighlightParams, describeSearchFilters, hasSearchCriteria, parseSearchQuery } from '@/utils/searchQuery';
+
+const formatDateTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+export default function Alerts() {
+  const {
+    watches,
+    unreadCount,
+    notificationPermission,
+    addWatch,
+    removeWatch,
+    markRead,
+    clearMatches,
+    checkNow,
+    requestNotificationPermission
+  } = useAlerts();
+  const { categoryName } = useCategories();
+  const [newWatch, setNewWatch] = useState({ name: '', query: '' });
+  const [error, setError] = useState('');
+
+  const handleAddWatch = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const parsed = parseSearchQuery(newWatch.query);
+    if (parsed.errors.length > 0) {
+      setError(parsed.errors[0]);
+      return;
+    }
+    if (!hasSearchCriteria(parsed)) {
+      setError('Enter keywords or qualifiers to watch');
+      return;
+    }
+
+    addWatch(newWatch.name, { query: newWatch.query, filters: EMPTY_SEARCH_FILTERS });
+    requestNotificationPermission();
+    setNewWatch({ name: '', query: '' });
+    setError('');
+  };
+
+  return (
+    <div className="min-h-screen">
+      <div className="container mx-auto px-6 py-8 max-w-4xl">
+        <div className="flex justify-between items-start mb-8">
+          <div>
+            <h1 className="text-title font-bold text-gray-800">Alerts</h1>
+            <p className="mt-1 text-body-sm text-gray-600">
+              Watched searches are checked every few minutes while the app is open.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead()}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+              >
+                Mark all as read
+              </button>
+            )}
+            <button
+              onClick={checkNow}
+              disabled={watches.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              Check now
+            </button>
+          </div>
+        </div>
+
+        {notificationPermission === 'default' && (
+          <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between">
+            <span className="text-body-sm text-blue-800">Get a browser notification when an alert finds new articles.</span>
+            <button
+              onClick={requestNotificationPermission}
+              className="text-body-sm font-medium text-blue-800 hover:text-blue-900 underline"
+            >
+              Enable notifications
+            </button>
+          </div>
+        )}
+        {notificationPermission === 'denied' && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-body-sm text-yellow-800">
+            Browser notifications are blocked for this site; new matches are still listed here.
+          </div>
+        )}
+
+        {/* Add Alert */}
+        <form onSubmit={handleAddWatch} className="bg-white p-6 rounded-lg shadow-md mb-8">
+          <h2 className="text-heading font-semibold text-gray-800 mb-4">Add Alert</h2>
+          <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto] gap-4 items-start">
+            <div>
+              <label htmlFor="alert-query" className="block text-body-sm font-medium text-gray-700 mb-1">
+                Search *
+              </label>
+              <input
+                type="text"
+                id="alert-query"
+                value={newWatch.query}
+                onChange={(e) => {
+                  setNewWatch(prev => ({ ...prev, query: e.target.value }));
+                  setError('');
+                }}
+                className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  error ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder='"interest rate" publisher:reuters.com'
+              />
+              {error ? (
+                <p className="mt-1 text-body-sm text-red-600">{error}</p>
+              ) : (
+                <p className="mt-1 text-caption text-gray-500">Same syntax as search. You can also watch a search from its results.</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="alert-name" className="block text-body-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                id="alert-name"
+                value={newWatch.name}
+                onChange={(e) => setNewWatch(prev => ({ ...prev, name: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Defaults to the search"
+              />
+            </div>
+            <button
+              type="submit"
+              className="md:mt-6 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+            >
+              Add Alert
+            </button>
+          </div>
+        </form>
+
+        {/* Inbox */}
+        {watches.length === 0 ? (
+          <div className="text-center text-gray-600">
+            No alerts yet
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {watches.map((watch) => {
+              const unread = watch.matches.filter(match => !match.read).length;
+              const description = [watch.query, ...describeSearchFilters(watch.filters, categoryName)].join(' · ');
+              const highlightQuery = buildHighlightParams(watch.query).toString();
+
+              return (
+                <div key={watch.id} className="bg-white rounded-lg shadow-md">
+                  <div className="px-6 py-4 border-b border-gray-100 flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <h2 className="text-heading-sm font-semibold text-gray-800 truncate">{watch.name}</h2>
+                        {unread > 0 && (
+                          <span className="px-2 py-0.5 rounded-full text-caption font-medium bg-blue-100 text-blue-800">
+                            {unread} new
+                          </span>
+                        )}
+                      </div>
+                      {description !== watch.name && (
+                        <p className="text-body-sm text-gray-500 font-mono truncate">{description}</p>
+                      )}
+                      <p className="mt-1 text-caption text-gray-500">
+                        {watch.lastCheckedAt ? `Last checked ${formatDateTime(watch.lastCheckedAt)}` : 'Not checked yet'}
+                        {watch.lastError && <span className="ml-2 text-yellow-700">{watch.lastError}</span>}
+                      </p>
+                    </div>
+                    <div className="flex gap-3 text-body-sm whitespace-nowrap">
+                      {unread > 0 && (
+                        <button onClick={() => markRead(watch.id)} className="text-blue-600 hover:text-blue-800">
+                          Mark as read
+                        </button>
+                      )}
+                      {watch.matches.length > 0 && (
+                        <button onClick={() => clearMatches(watch.id)} className="text-gray-600 hover:text-gray-800">
+                          Clear
+                        </button>
+                      )}
+                      <button onClick={() => removeWatch(watch.id)} className="text-red-600 hover:text-red-800">
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+
+                  {watch.matches.length === 0 ? (
+                    <p className="px-6 py-4 text-body-sm text-gray-500">No new articles since the alert was added.</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {watch.matches.map((match) => (
+                        <li key={match.id} className="px-6 py-3 flex items-center gap-3">
+                          <span className={`w-2 h-2 rounded-full flex-shrink-0 ${match.read ? 'bg-transparent' : 'bg-blue-500'}`} />
+                          <Link
+                            href={`/news/${match.id}${highlightQuery ? `?${highlightQuery}` : ''}`}
+                            onClick={() => markRead(watch.id, match.id)}
+                            className={`flex-1 min-w-0 truncate text-body-sm hover:text-blue-600 ${
+                              match.read ? 'text-gray-700' : 'font-semibold text-gray-900'
+                            }`}
+                          >
+                            {match.title || 'Untitled'}
+                          </Link>
+                          <span className="text-caption text-gray-500 whitespace-nowrap">
+                            Found {formatDateTime(match.foundAt)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
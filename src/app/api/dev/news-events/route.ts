@@ -0,0 +1,108 @@
+import { NewsEventType, NewsItem, getNews, listNews } from '@/utils/api';
+
+export const dynamic = 'force-dynamic';
+
+const POLL_INTERVAL = 3000;
+const HEARTBEAT_INTERVAL = 15000;
+
+/**
+ * Development stand-in for the backend's /news/events stream.
+ * Polls the REST API and emits `news.created` / `news.status` events for what changed,
+ * so the realtime path can be exercised before the backend ships its own stream.
+ * Enable with NEXT_PUBLIC_NEWS_EVENTS_URL=/api/dev/news-events.
+ */
+export async function GET(request: Request) {
+  if (process.env.NODE_ENV === 'production') {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  const knownStatuses = new Map<string, string>();
+  let primed = false;
+  let polling = false;
+  let pollTimer: ReturnType<typeof setInterval> | undefined;
+  let heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (type: NewsEventType, item: NewsItem) => {
+        if (request.signal.aborted) return;
+        controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify(item)}\n\n`));
+      };
+
+      const poll = async () => {
+        if (polling) return;
+        polling = true;
+        try {
+          const [latest, pending] = await Promise.all([
+            listNews({ page: 1, size: 50 }),
+            listNews({ status: 'added', page: 1, size: 100 })
+          ]);
+          const seen = new Set<string>();
+
+          [...latest.data, ...pending.data].forEach(item => {
+            if (seen.has(item.id)) return;
+            seen.add(item.id);
+
+            const previous = knownStatuses.get(item.id);
+            if (previous === undefined && primed) {
+              send('news.created', item);
+            } else if (previous !== undefined && previous !== item.status) {
+              send('news.status', item);
+            }
+            knownStatuses.set(item.id, item.status);
+          });
+
+          // Pending items that dropped off both lists have changed status; fetch them individually
+          const vanished = [...knownStatuses.entries()]
+            .filter(([id, status]) => status === 'added' && !seen.has(id))
+            .map(([id]) => id);
+          for (const id of vanished) {
+            try {
+              const item = await getNews(id);
+              if (item.status !== 'added') {
+                send('news.status', item);
+              }
+              knownStatuses.set(id, item.status);
+            } catch {
+              knownStatuses.delete(id); // Deleted
+            }
+          }
+
+          primed = true;
+        } catch (error) {
+          console.warn('Dev news event stand-in failed to poll backend:', error);
+        } finally {
+          polling = false;
+        }
+      };
+
+      controller.enqueue(encoder.encode('retry: 5000\n\n'));
+      poll();
+      pollTimer = setInterval(poll, POLL_INTERVAL);
+      heartbeatTimer = setInterval(() => {
+        if (!request.signal.aborted) {
+          controller.enqueue(encoder.encode(': ping\n\n'));
+        }
+      }, HEARTBEAT_INTERVAL);
+
+      request.signal.addEventListener('abort', () => {
+        clearInterval(pollTimer);
+        clearInterval(heartbeatTimer);
+        controller.close();
+      });
+    },
+    cancel() {
+      clearInterval(pollTimer);
+      clearInterval(heartbeatTimer);
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,314 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useToast } from '@/context/ToastContext';
+import { useCategories } from '@/context/CategoryContext';
+import { ApiError, Category, createCategory, errorPagePath, updateCategory } from '@/utils/api';
+
+const SLUG_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+
+const toSlug = (name: string) =>
+  name
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export default function Categories() {
+  const { categories, loading, loadError, refreshCategories, upsertCategory } = useCategories();
+  const [newCategory, setNewCategory] = useState({ name: '', slug: '' });
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [errors, setErrors] = useState<{ name?: string; slug?: string }>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const router = useRouter();
+  const { showError, showSuccess } = useToast();
+
+  const sortedCategories = [...categories].sort((a, b) =>
+    Number(Boolean(a.archived)) - Number(Boolean(b.archived)) || a.name.localeCompare(b.name)
+  );
+
+  const validateForm = () => {
+    const newErrors: { name?: string; slug?: string } = {};
+
+    if (!newCategory.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    if (!newCategory.slug.trim()) {
+      newErrors.slug = 'Slug is required';
+    } else if (!SLUG_PATTERN.test(newCategory.slug.trim())) {
+      newErrors.slug = 'Use lowercase letters, numbers, "-" and "_" only';
+    } else if (categories.some(category => category.slug === newCategory.slug.trim())) {
+      newErrors.slug = 'A category with this slug already exists';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleNameChange = (name: string) => {
+    setNewCategory(prev => ({ name, slug: slugEdited ? prev.slug : toSlug(name) }));
+    setErrors({});
+  };
+
+  const handleSlugChange = (slug: string) => {
+    setSlugEdited(true);
+    setNewCategory(prev => ({ ...prev, slug }));
+    setErrors(prev => ({ ...prev, slug: undefined }));
+  };
+
+  const handleAddCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const created = await createCategory({ name: newCategory.name.trim(), slug: newCategory.slug.trim() });
+      if (created) {
+        upsertCategory(created);
+      } else {
+        await refreshCategories();
+      }
+      setNewCategory({ name: '', slug: '' });
+      setSlugEdited(false);
+      showSuccess('Category added successfully!');
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 409) {
+        showError('A category with this name or slug already exists.');
+        return;
+      }
+      router.push(errorPagePath(err));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const saveCategory = async (category: Category, input: { name?: string; archived?: boolean }, message: string) => {
+    setSavingId(category.id);
+    try {
+      const updated = await updateCategory(category.id, input);
+      upsertCategory(updated || { ...category, ...input });
+      setEditing(null);
+      showSuccess(message);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 409) {
+        showError('A category with this name already exists.');
+        return;
+      }
+      if (err instanceof ApiError && err.status === 404) {
+        showError('This category no longer exists.');
+        await refreshCategories();
+        return;
+      }
+      router.push(errorPagePath(err));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRename = (category: Category) => {
+    if (!editing) return;
+
+    const name = editing.name.trim();
+    if (!name || name === category.name) {
+      setEditing(null);
+      return;
+    }
+    saveCategory(category, { name }, 'Category renamed successfully!');
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-heading-sm">Loading categories...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen">
+      <div className="container mx-auto px-6 py-8 max-w-4xl">
+        <div className="mb-8">
+          <h1 className="text-title font-bold text-gray-800">Categories</h1>
+          <p className="mt-1 text-body-sm text-gray-600">
+            Archived categories stay on existing articles but can no longer be picked for new ones.
+          </p>
+        </div>
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between">
+            <span className="text-body-sm text-yellow-800">Categories could not be loaded.</span>
+            <button
+              onClick={refreshCategories}
+              className="text-body-sm font-medium text-yellow-800 hover:text-yellow-900 underline"
+            >
+              Try again
+            </button>
+          </div>
+        )}
+
+        {/* Add Category */}
+        <form onSubmit={handleAddCategory} className="bg-white p-6 rounded-lg shadow-md mb-8">
+          <h2 className="text-heading font-semibold text-gray-800 mb-4">Add Category</h2>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-start">
+            <div>
+              <label htmlFor="category-name" className="block text-body-sm font-medium text-gray-700 mb-1">
+                Name *
+              </label>
+              <input
+                type="text"
+                id="category-name"
+                value={newCategory.name}
+                onChange={(e) => handleNameChange(e.target.value)}
+                disabled={submitting}
+                className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed ${
+                  errors.name ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder="Technology"
+              />
+              {errors.name && (
+                <p className="mt-1 text-body-sm text-red-600">{errors.name}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="category-slug" className="block text-body-sm font-medium text-gray-700 mb-1">
+                Slug *
+              </label>
+              <input
+                type="text"
+                id="category-slug"
+                value={newCategory.slug}
+                onChange={(e) => handleSlugChange(e.target.value)}
+                disabled={submitting}
+                className={`w-full px-3 py-2 border rounded-md shadow-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed ${
+                  errors.slug ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder="technology"
+              />
+              {errors.slug ? (
+                <p className="mt-1 text-body-sm text-red-600">{errors.slug}</p>
+              ) : (
+                <p className="mt-1 text-caption text-gray-500">Used in URLs and CSV imports; cannot be changed later.</p>
+              )}
+            </div>
+            <button
+              type="submit"
+              disabled={submitting}
+              className="md:mt-6 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {submitting ? 'Adding...' : 'Add Category'}
+            </button>
+          </div>
+        </form>
+
+        {/* Category List */}
+        {sortedCategories.length === 0 ? (
+          <div className="text-center text-gray-600">
+            No categories found
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <table className="w-full text-body-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-6 py-3 font-medium">Name</th>
+                  <th className="px-6 py-3 font-medium">Slug</th>
+                  <th className="px-6 py-3 font-medium">Status</th>
+                  <th className="px-6 py-3 font-medium text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedCategories.map((category) => {
+                  const isEditing = editing?.id === category.id;
+                  const isSaving = savingId === category.id;
+
+                  return (
+                    <tr key={category.id} className="border-t border-gray-100">
+                      <td className="px-6 py-3">
+                        {isEditing ? (
+                          <input
+                            type="text"
+                            value={editing.name}
+                            onChange={(e) => setEditing({ id: category.id, name: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') handleRename(category);
+                              if (e.key === 'Escape') setEditing(null);
+                            }}
+                            disabled={isSaving}
+                            autoFocus
+                            className="w-full px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          />
+                        ) : (
+                          <span className={category.archived ? 'text-gray-500' : 'text-gray-800'}>{category.name}</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 font-mono text-gray-600">{category.slug}</td>
+                      <td className="px-6 py-3">
+                        <span className={`inline-block px-2 py-1 rounded text-caption font-medium ${
+                          category.archived ? 'bg-gray-100 text-gray-700' : 'bg-green-100 text-green-800'
+                        }`}>
+                          {category.archived ? 'Archived' : 'Active'}
+                        </span>
+                      </td>
+                      <td className="px-6 py-3">
+                        <div className="flex justify-end gap-3">
+                          {isEditing ? (
+                            <>
+                              <button
+                                onClick={() => handleRename(category)}
+                                disabled={isSaving}
+                                className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                              >
+                                {isSaving ? 'Saving...' : 'Save'}
+                              </button>
+                              <button
+                                onClick={() => setEditing(null)}
+                                disabled={isSaving}
+                                className="text-gray-600 hover:text-gray-800 disabled:text-gray-400"
+                              >
+                                Cancel
+                              </button>
+                            </>
+                          ) : (
+                            <>
+                              <button
+                                onClick={() => setEditing({ id: category.id, name: category.name })}
+                                disabled={isSaving}
+                                className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                              >
+                                Rename
+                              </button>
+                              <button
+                                onClick={() => saveCategory(
+                                  category,
+                                  { archived: !category.archived },
+                                  category.archived ? 'Category restored successfully!' : 'Category archived successfully!'
+                                )}
+                                disabled={isSaving}
+                                className={`disabled:text-gray-400 ${
+                                  category.archived ? 'text-green-700 hover:text-green-900' : 'text-red-600 hover:text-red-800'
+                                }`}
+                              >
+                                {category.archived ? 'Unarchive' : 'Archive'}
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import BarChart from '@/components/BarChart';
+import BreakdownChart, { BreakdownItem } from '@/components/BreakdownChart';
+import DateRangePicker from '@/components/DateRangePicker';
+import LineChart from '@/components/LineChart';
+import { useCategories } from '@/context/CategoryContext';
+import { Category, ListResponse, listNews } from '@/utils/api';
+import { DEFAULT_RANGE_DAYS, DailyCount, DateRange, countDays, failureRates, formatDay, listDays, resolveDateRange } from '@/utils/analytics';
+import { runWithConcurrency } from '@/utils/concurrency';
+import { FEED_STATUSES } from '@/utils/feedFilters';
+import { fetchAllPublishers } from '@/utils/newsExport';
+
+interface DashboardData {
+  total: number;
+  byStatus: Record<string, number>;
+  byCategory: BreakdownItem[];
+  daily: DailyCount[];
+  topPublishers: BreakdownItem[];
+}
+
+// Parallel requests per chart; every bar and count is a one-item page
+const CONCURRENCY = 4;
+const TOP_PUBLISHERS = 10;
+
+const statusColors: Record<string, string> = {
+  synced: 'bg-green-500',
+  failed: 'bg-red-500',
+  added: 'bg-blue-500'
+};
+
+const statusStyles: Record<string, string> = {
+  synced: 'text-green-700',
+  failed: 'text-red-700',
+  added: 'text-blue-700'
+};
+
+const totalOf = (response: ListResponse<unknown>) => response.pagination?.total ?? response.data.length;
+
+// Fail the whole load when any request fails, rather than charting a partial count as real
+async function countAll<T>(items: T[], count: (item: T) => Promise<number>): Promise<number[]> {
+  const results = await runWithConcurrency(items, CONCURRENCY, count);
+  return results.map(result => {
+    if (result.status === 'rejected') throw result.reason;
+    return result.value;
+  });
+}
+
+// Counts come from the pagination totals of one-item pages, so no stats endpoint is needed.
+// They skip the service worker cache, which would otherwise fill up with probes and evict the
+// feed and article responses offline mode relies on.
+async function fetchDashboard(range: DateRange, categories: Category[], signal: AbortSignal): Promise<DashboardData> {
+  const options = { signal, noStore: true };
+  const countNews = async (params: Parameters<typeof listNews>[0]) =>
+    totalOf(await listNews({ ...range, ...params, page: 1, size: 1 }, options));
+
+  const [total, ...statusTotals] = await Promise.all([
+    countNews({}),
+    ...FEED_STATUSES.map(status => countNews({ status }))
+  ]);
+
+  const categoryTotals = await countAll(categories, category => countNews({ category: category.slug }));
+  const categorized = categoryTotals.reduce((sum, value) => sum + value, 0);
+  const byCategory: BreakdownItem[] = categories
+    .map((category, index) => ({ key: category.slug, label: category.name, value: categoryTotals[index] }))
+    .filter(item => item.value > 0)
+    .sort((a, b) => b.value - a.value);
+  if (total > categorized) {
+    byCategory.push({ key: '', label: 'Uncategorized', value: total - categorized, color: 'bg-gray-400' });
+  }
+
+  const days = listDays(range);
+  const dailyTotals = await countAll(days, date => countNews({ from: date, to: date }));
+  const dailyFailed = await countAll(days, date => countNews({ from: date, to: date, status: 'failed' }));
+
+  const publishers = await fetchAllPublishers(options);
+  const publisherTotals = await countAll(publishers, publisher => countNews({ publisherId: publisher.id }));
+
+  return {
+    total,
+    byStatus: Object.fromEntries(FEED_STATUSES.map((status, index) => [status, statusTotals[index]])),
+    byCategory,
+    daily: days.map((date, index) => ({ date, total: dailyTotals[index], failed: dailyFailed[index] })),
+    topPublishers: publishers
+      .map((publisher, index) => ({ key: publisher.id, label: publisher.name, value: publisherTotals[index] }))
+      .filter(item => item.value > 0)
+      .sort((a, b) => b.value - a.value)
+      .slice(0, TOP_PUBLISHERS)
+  };
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export default function Dashboard() {
+  const { categories, loading: categoriesLoading } = useCategories();
+  const [dateRange, setDateRange] = useState<DateRange>({ from: '', to: '' });
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const range = resolveDateRange(dateRange);
+  const chartedDays = listDays(range).length;
+  const rangeTruncated = chartedDays < countDays(range);
+
+  useEffect(() => {
+    if (categoriesLoading) return;
+    // Changing the range aborts the requests still out for the previous one
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const fetchData = async () => {
+      setLoading(true);
+      setLoadFailed(false);
+      try {
+        const result = await fetchDashboard(range, categories, signal);
+        if (!signal.aborted) setData(result);
+      } catch (err) {
+        if (signal.aborted) return;
+        console.error('Error fetching dashboard data:', err);
+        setLoadFailed(true);
+      } finally {
+        if (!signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+    // The resolved range is a new object every render; its ends are what matter
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [range.from, range.to, categories, categoriesLoading, reloadKey]);
+
+  const failedTotal = data ? data.byStatus.failed || 0 : 0;
+  const rates = data ? failureRates(data.daily) : [];
+
+  return (
+    <div className="min-h-screen">
+      <div className="container mx-auto px-6 py-8">
+        <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-4 mb-8">
+          <div>
+            <h1 className="text-title font-bold text-gray-800">Dashboard</h1>
+            <p className="mt-1 text-body-sm text-gray-600">
+              Articles published {formatDay(range.from)} – {formatDay(range.to)}
+              {!dateRange.from && !dateRange.to && ` (last ${DEFAULT_RANGE_DAYS} days)`}
+            </p>
+          </div>
+          <div className="flex items-center gap-3 md:w-80">
+            <div className="flex-1">
+              <DateRangePicker value={dateRange} onChange={setDateRange} disabled={loading} />
+            </div>
+            {(dateRange.from || dateRange.to) && (
+              <button
+                onClick={() => setDateRange({ from: '', to: '' })}
+                disabled={loading}
+                className="text-body-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400 whitespace-nowrap"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+        </div>
+
+        {loadFailed ? (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between">
+            <span className="text-body-sm text-yellow-800">Dashboard data could not be loaded.</span>
+            <button
+              onClick={() => setReloadKey(key => key + 1)}
+              className="text-body-sm font-medium text-yellow-800 hover:text-yellow-900 underline"
+            >
+              Try again
+            </button>
+          </div>
+        ) : !data ? (
+          <div className="text-center text-gray-600 py-8">Loading dashboard...</div>
+        ) : (
+          <div className={`space-y-6 transition-opacity ${loading ? 'opacity-60' : ''}`}>
+            {/* Totals */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div className="bg-white rounded-lg shadow-md p-4">
+                <p className="text-caption font-medium text-gray-500 uppercase tracking-wide">Total</p>
+                <p className="mt-1 text-heading-sm font-semibold text-gray-900">{data.total}</p>
+              </div>
+              {FEED_STATUSES.map(status => (
+                <div key={status} className="bg-white rounded-lg shadow-md p-4">
+                  <p className="text-caption font-medium text-gray-500 uppercase tracking-wide">{status}</p>
+                  <p className={`mt-1 text-heading-sm font-semibold ${statusStyles[status]}`}>{data.byStatus[status]}</p>
+                </div>
+              ))}
+              <div className="bg-white rounded-lg shadow-md p-4">
+                <p className="text-caption font-medium text-gray-500 uppercase tracking-wide">Failure rate</p>
+                <p className="mt-1 text-heading-sm font-semibold text-gray-900">
+                  {data.total > 0 ? formatPercent(failedTotal / data.total) : '—'}
+                </p>
+              </div>
+            </div>
+
+            {/* Articles per day */}
+            <section className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-heading font-semibold text-gray-800">Articles per day</h2>
+              <p className="mt-1 mb-4 text-caption text-gray-500">
+                By published date{rangeTruncated && `; showing the last ${chartedDays} days of the range`}
+              </p>
+              <BarChart
+                items={data.daily.map(day => ({ label: formatDay(day.date), value: day.total, highlight: day.failed }))}
+                valueLabel="articles"
+                highlightLabel="failed"
+              />
+            </section>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {/* Status */}
+              <section className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-heading font-semibold text-gray-800 mb-4">By status</h2>
+                <BreakdownChart
+                  items={FEED_STATUSES.map(status => ({
+                    key: status,
+                    label: status,
+                    value: data.byStatus[status],
+                    color: statusColors[status]
+                  }))}
+                  total={data.total}
+                />
+              </section>
+
+              {/* Category */}
+              <section className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-heading font-semibold text-gray-800 mb-4">By category</h2>
+                <BreakdownChart items={data.byCategory} total={data.total} />
+              </section>
+
+              {/* Publishers */}
+              <section className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-heading font-semibold text-gray-800">Top publishers</h2>
+                <p className="mt-1 mb-4 text-caption text-gray-500">By number of articles</p>
+                <BreakdownChart items={data.topPublishers} total={data.total} emptyMessage="No publisher articles in this range" />
+                {data.topPublishers.length > 0 && (
+                  <Link href="/publishers" className="inline-block mt-4 text-body-sm text-blue-600 hover:text-blue-800">
+                    All publishers
+                  </Link>
+                )}
+              </section>
+
+              {/* Failure rate */}
+              <section className="bg-white rounded-lg shadow-md p-6">
+                <h2 className="text-heading font-semibold text-gray-800">Failure rate</h2>
+                <p className="mt-1 mb-4 text-caption text-gray-500">Share of each day&apos;s articles that failed to sync</p>
+                <LineChart
+                  points={data.daily.map((day, index) => ({ label: formatDay(day.date), value: rates[index] }))}
+                  formatValue={formatPercent}
+                  max={Math.max(0.1, ...rates.map(rate => rate ?? 0))}
+                />
+              </section>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,15 @@
 import type { Metadata } from "next";
 import Sidebar from "@/components/Sidebar";
+import OfflineBanner from "@/components/OfflineBanner";
 import { ToastProvider } from "@/context/ToastContext";
+import { IngestionProvider } from "@/context/IngestionContext";
+import { OfflineProvider } from "@/context/OfflineContext";
+import { UndoDeleteProvider } from "@/context/UndoDeleteContext";
+import { CategoryProvider } from "@/context/CategoryContext";
+import { TickerProvider } from "@/context/TickerContext";
+import { SearchProvider } from "@/context/SearchContext";
+import { AlertProvider } from "@/context/AlertContext";
+import { ReadingListProvider } from "@/context/ReadingListContext";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -17,12 +26,29 @@ export default function RootLayout({
     <html lang="en" className="bg-white">
       <body className="antialiased bg-gray-50 text-gray-900">
         <ToastProvider>
-          <div className="flex min-h-screen bg-gray-50">
-            <Sidebar />
-            <main className="flex-1 ml-64 bg-gray-50">
-              {children}
-            </main>
-          </div>
+          <CategoryProvider>
+            <TickerProvider>
+              <IngestionProvider>
+                <OfflineProvider>
+                  <UndoDeleteProvider>
+                    <AlertProvider>
+                      <ReadingListProvider>
+                        <SearchProvider>
+                          <div className="flex min-h-screen bg-gray-50">
+                            <Sidebar />
+                            <main className="flex-1 ml-64 bg-gray-50">
+                              <OfflineBanner />
+                              {children}
+                            </main>
+                          </div>
+                        </SearchProvider>
+                      </ReadingListProvider>
+                    </AlertProvider>
+                  </UndoDeleteProvider>
+                </OfflineProvider>
+              </IngestionProvider>
+            </TickerProvider>
+          </CategoryProvider>
         </ToastProvider>
       </body>
     </html>
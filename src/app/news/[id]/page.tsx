@@ -1,76 +1,93 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useRouter, useParams, useSearchParams } from 'next/navigation';
 import { useToast } from '@/context/ToastContext';
+import { useIngestion } from '@/context/IngestionContext';
+import { useReadingList } from '@/context/ReadingListContext';
+import { useUndoDelete } from '@/context/UndoDeleteContext';
+import BookmarkButton from '@/components/BookmarkButton';
 import DeleteConfirmModal from '@/components/DeleteConfirmModal';
+import CategoryBadge from '@/components/CategoryBadge';
+import SentimentBadge from '@/components/SentimentBadge';
+import TickerChips from '@/components/TickerChips';
+import HighlightToolbar from '@/components/HighlightToolbar';
+import { ApiError, NewsItem, errorPagePath, getNews, retryNews } from '@/utils/api';
+import { ValidationError, ValidationIssue } from '@/utils/schema';
+import { sanitizeHtml } from '@/utils/sanitizeHtml';
+import { HIGHLIGHT_ATTRIBUTE, formatHighlightQuery, highlightHtml, parseHighlightTerms } from '@/utils/highlight';
 
 export const dynamic = 'force-dynamic';
 
-interface NewsDetail {
-  id: string;
-  title: string;
-  author: string;
-  published_at: string;
-  content: string;
-  url: string;
-  thumbnail?: string;
-  status: string;
-}
-
-interface NewsDetailResponse {
-  data: NewsDetail;
-}
-
 export default function NewsDetailPage() {
-  const [newsDetail, setNewsDetail] = useState<NewsDetail | null>(null);
+  const [newsDetail, setNewsDetail] = useState<NewsItem | null>(null);
   const [loading, setLoading] = useState(true);
+  const [invalidResponse, setInvalidResponse] = useState<ValidationIssue[] | null>(null);
   const [deleteModal, setDeleteModal] = useState<{ isOpen: boolean; newsId: string; newsTitle: string }>({
     isOpen: false,
     newsId: '',
     newsTitle: ''
   });
-  const [deleting, setDeleting] = useState(false);
+  const [retrying, setRetrying] = useState(false);
   const router = useRouter();
   const params = useParams();
   const searchParams = useSearchParams();
   const { showError, showSuccess } = useToast();
-
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:40000/api/v1';
+  const { subscribe, trackArticle } = useIngestion();
+  const { getSavedArticle, setRead } = useReadingList();
+  const { deleteWithUndo } = useUndoDelete();
 
   const newsId = params.id as string;
   const highlightKeywords = searchParams.getAll('highlight_keywords');
+  const [highlightQuery, setHighlightQuery] = useState(() => formatHighlightQuery(parseHighlightTerms(highlightKeywords)));
+  const [currentMatch, setCurrentMatch] = useState(0);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const highlightInputRef = useRef<HTMLInputElement>(null);
+  const scrollToMatchRef = useRef(false);
+
+  const content = newsDetail?.content;
+  const contentBaseUrl = newsDetail?.url;
+  // Highlight on the client so matches show even when the backend ignores highlight_keywords
+  const highlighted = useMemo(
+    () => highlightHtml(content ? sanitizeHtml(content, { baseUrl: contentBaseUrl }) : '', parseHighlightTerms(highlightQuery)),
+    [content, contentBaseUrl, highlightQuery]
+  );
+  const activeMatch = highlighted.count > 0 ? Math.min(currentMatch, highlighted.count - 1) : 0;
+
+  const goToMatch = (offset: number) => {
+    if (highlighted.count === 0) return;
+    scrollToMatchRef.current = true;
+    setCurrentMatch((activeMatch + offset + highlighted.count) % highlighted.count);
+  };
+
+  const handleHighlightQueryChange = (query: string) => {
+    setHighlightQuery(query);
+    setCurrentMatch(0);
+  };
 
   const fetchNewsDetail = async () => {
     if (!newsId) return;
 
     setLoading(true);
     try {
-      let url = `${API_BASE_URL}/news/${newsId}`;
-
-      // Add highlight keywords to query params if present
-      if (highlightKeywords.length > 0) {
-        const params = new URLSearchParams();
-        highlightKeywords.forEach(keyword => params.append('highlight_keywords', keyword));
-        url += `?${params.toString()}`;
+      const data = await getNews(newsId, highlightKeywords);
+      setNewsDetail(data);
+      setRead(newsId, true); // No-op unless the article is on the reading list
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) {
+        router.push('/error?code=404&message=News article not found');
+        return;
       }
-
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          router.push('/error?code=404&message=News article not found');
-          return;
-        }
-        router.push(`/error?code=${response.status}&message=${encodeURIComponent(response.statusText)}`);
+      if (err instanceof ValidationError) {
+        setInvalidResponse(err.issues);
         return;
       }
-
-      const data: NewsDetailResponse = await response.json();
-      setNewsDetail(data.data);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Network connection failed';
-      router.push(`/error?code=503&message=${encodeURIComponent(errorMessage)}`);
+      // Fall back to the copy on the reading list while the backend is unreachable
+      if (await getSavedArticle(newsId)) {
+        router.replace(`/reading-list/${newsId}`);
+        return;
+      }
+      router.push(errorPagePath(err));
     } finally {
       setLoading(false);
     }
@@ -81,6 +98,24 @@ export default function NewsDetailPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [newsId]); // Only depend on newsId, highlightKeywords are read directly in fetchNewsDetail
 
+  // Reflect status changes pushed while the article is open; keep highlighted content as fetched
+  useEffect(() => {
+    return subscribe((updatedNewsItem, change) => {
+      if (change !== 'updated' || updatedNewsItem.id !== newsId) return;
+
+      setNewsDetail(prev => prev ? {
+        ...prev,
+        status: updatedNewsItem.status,
+        title: updatedNewsItem.title || prev.title,
+        thumbnail: updatedNewsItem.thumbnail || prev.thumbnail,
+        author: updatedNewsItem.author || prev.author,
+        published_at: updatedNewsItem.published_at || prev.published_at,
+        content: prev.content || updatedNewsItem.content,
+        category: updatedNewsItem.category || prev.category
+      } : prev);
+    });
+  }, [subscribe, newsId]);
+
   const formatDate = (dateString: string) => {
     try {
       const date = new Date(dateString);
@@ -106,43 +141,33 @@ export default function NewsDetailPage() {
     }
   };
 
-  const confirmDeleteNews = async () => {
-    if (!deleteModal.newsId) return;
+  // Hide the article and go back to the feed; the delete is sent once the undo grace period ends
+  const confirmDeleteNews = () => {
+    if (!newsDetail || deleteModal.newsId !== newsDetail.id) return;
 
-    setDeleting(true);
-    try {
-      const response = await fetch(`${API_BASE_URL}/news/${deleteModal.newsId}`, {
-        method: 'DELETE',
-      });
+    setDeleteModal({ isOpen: false, newsId: '', newsTitle: '' });
+    deleteWithUndo([newsDetail]);
+    router.push('/');
+  };
 
-      if (!response.ok) {
-        if (response.status === 409) {
-          showError('Cannot delete this news item due to a conflict.');
-          return;
-        }
 
-        try {
-          const errorData = await response.json();
-          if (errorData.errors && errorData.errors[0]) {
-            showError(`Failed to delete news item: ${errorData.errors[0].message || 'Unknown error'}`);
-            return;
-          }
-        } catch (parseError) {
-          // Fall through to generic error handling
-        }
+  const handleRetrySync = async () => {
+    if (!newsDetail) return;
 
-        router.push(`/error?code=${response.status}&message=${encodeURIComponent(response.statusText)}`);
+    setRetrying(true);
+    try {
+      const retried = await retryNews(newsDetail.id);
+      setNewsDetail(prev => prev ? { ...prev, status: 'added' } : prev);
+      trackArticle(retried || { ...newsDetail, status: 'added' });
+      showSuccess('Article queued for re-sync.');
+    } catch (err) {
+      if (err instanceof ApiError) {
+        showError(`Failed to retry sync: ${err.message || 'Unknown error'}`);
         return;
       }
-
-      showSuccess('News article deleted successfully!');
-      setDeleteModal({ isOpen: false, newsId: '', newsTitle: '' });
-      router.push('/');
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Network connection failed';
-      router.push(`/error?code=503&message=${encodeURIComponent(errorMessage)}`);
+      router.push(errorPagePath(err));
     } finally {
-      setDeleting(false);
+      setRetrying(false);
     }
   };
 
@@ -150,6 +175,38 @@ export default function NewsDetailPage() {
     setDeleteModal({ isOpen: false, newsId: '', newsTitle: '' });
   };
 
+  // Mark the current match and bring it into view after navigating
+  useEffect(() => {
+    const marks = contentRef.current?.querySelectorAll<HTMLElement>(`mark[${HIGHLIGHT_ATTRIBUTE}]`);
+    if (!marks) return;
+
+    marks.forEach((mark, index) => mark.classList.toggle('current-match', index === activeMatch));
+    if (scrollToMatchRef.current) {
+      scrollToMatchRef.current = false;
+      marks[activeMatch]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [activeMatch, highlighted.html]);
+
+  // N / Shift+N jump between matches, "/" focuses the highlight box
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      if (e.key === 'n' || e.key === 'N') {
+        e.preventDefault();
+        goToMatch(e.shiftKey ? -1 : 1);
+      } else if (e.key === '/') {
+        e.preventDefault();
+        highlightInputRef.current?.focus();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -158,6 +215,28 @@ export default function NewsDetailPage() {
     );
   }
 
+  if (invalidResponse) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="max-w-xl w-full p-6 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+          <h1 className="text-heading-sm font-semibold mb-2">This article could not be displayed</h1>
+          <p className="text-body-sm mb-3">The server returned data in an unexpected format:</p>
+          <ul className="mb-4 space-y-1 text-caption font-mono">
+            {invalidResponse.map((issue, index) => (
+              <li key={index}>{issue.path} {issue.message}</li>
+            ))}
+          </ul>
+          <button
+            onClick={() => router.back()}
+            className="text-body-sm font-medium underline hover:text-yellow-900"
+          >
+            Go back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (!newsDetail) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -169,13 +248,17 @@ export default function NewsDetailPage() {
   return (
     <div className="min-h-screen">
       <style jsx>{`
-        .news-content mark {
+        .news-content :global(mark) {
           background-color: #fef3c7;
           color: #92400e;
           font-weight: 600;
           padding: 2px 4px;
           border-radius: 2px;
         }
+        .news-content :global(mark.current-match) {
+          background-color: #f59e0b;
+          color: #ffffff;
+        }
       `}</style>
       <div className="container mx-auto px-6 py-8 max-w-4xl">
         {/* Back Button */}
@@ -194,16 +277,26 @@ export default function NewsDetailPage() {
           {/* Header */}
           <div className="p-6 border-b border-gray-200">
             <div className="flex items-center justify-between mb-4">
-              <span className={`inline-block px-3 py-1 rounded-full text-body-sm font-medium ${
-                newsDetail.status === 'synced'
-                  ? 'bg-green-100 text-green-800'
-                  : 'bg-gray-100 text-gray-800'
-              }`}>
-                {newsDetail.status}
-              </span>
+              <div className="flex items-center gap-2">
+                <span className={`inline-block px-3 py-1 rounded-full text-body-sm font-medium ${
+                  newsDetail.status === 'synced'
+                    ? 'bg-green-100 text-green-800'
+                    : newsDetail.status === 'failed'
+                    ? 'bg-red-100 text-red-800'
+                    : newsDetail.status === 'added'
+                    ? 'bg-blue-100 text-blue-800'
+                    : 'bg-gray-100 text-gray-800'
+                }`}>
+                  {newsDetail.status}
+                </span>
+                <CategoryBadge slug={newsDetail.category} size="md" />
+                <SentimentBadge article={newsDetail} size="md" />
+              </div>
 
               {/* Action Buttons */}
               <div className="flex gap-2">
+                <BookmarkButton article={newsDetail} variant="button" />
+
                 {newsDetail.url && (
                   <a
                     href={newsDetail.url}
@@ -218,6 +311,19 @@ export default function NewsDetailPage() {
                   </a>
                 )}
 
+                {newsDetail.status === 'failed' && (
+                  <button
+                    onClick={handleRetrySync}
+                    disabled={retrying}
+                    className="flex items-center px-4 py-2 bg-white border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors text-body-sm"
+                  >
+                    <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                    </svg>
+                    {retrying ? 'Retrying...' : 'Retry sync'}
+                  </button>
+                )}
+
                 <button
                   onClick={handleDeleteNews}
                   className="flex items-center px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors text-body-sm"
@@ -234,6 +340,8 @@ export default function NewsDetailPage() {
               {newsDetail.title}
             </h1>
 
+            <TickerChips article={newsDetail} size="md" className="mb-4" />
+
             <div className="flex items-center text-gray-600 text-body-sm space-x-4">
               {newsDetail.author && (
                 <div className="flex items-center">
@@ -278,10 +386,22 @@ export default function NewsDetailPage() {
           <div className="p-6">
             <div className="prose max-w-none">
               {newsDetail.content ? (
-                <div
-                  className="text-gray-800 leading-relaxed whitespace-pre-wrap news-content"
-                  dangerouslySetInnerHTML={{ __html: newsDetail.content }}
-                />
+                <>
+                  <HighlightToolbar
+                    query={highlightQuery}
+                    onQueryChange={handleHighlightQueryChange}
+                    matchCount={highlighted.count}
+                    currentMatch={activeMatch}
+                    onNext={() => goToMatch(1)}
+                    onPrevious={() => goToMatch(-1)}
+                    inputRef={highlightInputRef}
+                  />
+                  <div
+                    ref={contentRef}
+                    className="text-gray-800 leading-relaxed whitespace-pre-wrap news-content"
+                    dangerouslySetInnerHTML={{ __html: highlighted.html }}
+                  />
+                </>
               ) : (
                 <p className="text-gray-600 italic">No content available. Please visit the original article for full details.</p>
               )}
@@ -301,8 +421,7 @@ export default function NewsDetailPage() {
           onClose={cancelDelete}
           onConfirm={confirmDeleteNews}
           title="Delete News Article"
-          message={`Are you sure you want to delete "${deleteModal.newsTitle}"? This action cannot be undone.`}
-          loading={deleting}
+          message={`Are you sure you want to delete "${deleteModal.newsTitle}"? You can undo this for a few seconds.`}
         />
       </div>
     </div>
@@ -1,41 +1,62 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, useRef, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import DateRangePicker from '@/components/DateRangePicker';
 import AddNewsModal from '@/components/AddNewsModal';
 import DeleteConfirmModal from '@/components/DeleteConfirmModal';
-import SearchModal from '@/components/SearchModal';
+import ExportMenu from '@/components/ExportMenu';
+import MalformedDataNotice from '@/components/MalformedDataNotice';
+import NewsCard from '@/components/NewsCard';
 import { useToast } from '@/context/ToastContext';
-
-interface NewsItem {
-  id: string;
-  title: string;
-  thumbnail?: string;
-  status: string;
-  published_at?: string;
-  author?: string;
-  content?: string;
+import { useIngestion } from '@/context/IngestionContext';
+import { useCategories } from '@/context/CategoryContext';
+import { useSearch } from '@/context/SearchContext';
+import { useOffline } from '@/context/OfflineContext';
+import { useUndoDelete } from '@/context/UndoDeleteContext';
+import { useTickers } from '@/context/TickerContext';
+import { ApiError, CreateNewsInput, NewsItem, Pagination, createNews, errorPagePath, isNetworkError, listNews, retryNews } from '@/utils/api';
+import { runWithConcurrency } from '@/utils/concurrency';
+import { InvalidItem } from '@/utils/schema';
+import { createNewsErrorMessage } from '@/utils/newsInput';
+import { FeedFilters, buildFeedQuery, feedFilterKey, hasActiveFilters, parseFeedFilters } from '@/utils/feedFilters';
+import { SENTIMENT_LABELS, SentimentLabel, articleSentiment } from '@/utils/sentiment';
+
+interface BulkProgress {
+  label: string;
+  done: number;
+  total: number;
 }
 
-interface NewsResponse {
-  data: NewsItem[];
-  pagination?: {
-    page: number;
-    size: number;
-    total: number;
-    total_pages: number;
-  };
+interface BulkFailures {
+  action: string; // Past tense, e.g. "deleted"
+  failures: { item: NewsItem; message: string }[];
 }
 
-export default function Home() {
+const bulkErrorMessage = (err: unknown) => {
+  if (err instanceof ApiError) {
+    return err.status === 409 ? 'Conflict with its current state' : err.message;
+  }
+  return err instanceof Error ? err.message : 'Unknown error';
+};
+
+function NewsFeed() {
   const [news, setNews] = useState<NewsItem[]>([]);
+  const [invalidNews, setInvalidNews] = useState<InvalidItem[]>([]);
   const [initialLoading, setInitialLoading] = useState(true);
   const [searching, setSearching] = useState(false);
-  const [dateRange, setDateRange] = useState({ from: '', to: '' });
-  const [statusFilter, setStatusFilter] = useState('');
-  const [page, setPage] = useState(1);
-  const [size, setSize] = useState(30);
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // The query string is the source of truth for applied filters; the form below holds unapplied edits
+  const filters = parseFeedFilters(searchParams);
+  const filterKey = feedFilterKey(filters);
+  const size = filters.size;
+  const [dateRange, setDateRange] = useState({ from: filters.from, to: filters.to });
+  const [statusFilter, setStatusFilter] = useState(filters.status);
+  const [categoryFilter, setCategoryFilter] = useState(filters.category);
+  const [tickerFilter, setTickerFilter] = useState(filters.ticker);
+  const [sentimentFilter, setSentimentFilter] = useState<SentimentLabel | ''>(filters.sentiment);
+  const [page, setPage] = useState(filters.page);
   const [loadingMore, setLoadingMore] = useState(false);
   const [pagination, setPagination] = useState({
     page: 1,
@@ -44,22 +65,32 @@ export default function Home() {
     total_pages: 0
   });
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [isSearchModalOpen, setIsSearchModalOpen] = useState(false);
   const [submitting, setSubmitting] = useState(false);
-  const [pollingNewsId, setPollingNewsId] = useState<string | null>(null);
-  const [activePollingInterval, setActivePollingInterval] = useState<NodeJS.Timeout | null>(null);
   const [deleteModal, setDeleteModal] = useState<{ isOpen: boolean; newsId: string; newsTitle: string }>({
     isOpen: false,
     newsId: '',
     newsTitle: ''
   });
-  const [deleting, setDeleting] = useState(false);
-  const router = useRouter();
+  const [retryingIds, setRetryingIds] = useState<Set<string>>(new Set());
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const selectionAnchorRef = useRef<string | null>(null);
+  const [bulkDeleteOpen, setBulkDeleteOpen] = useState(false);
+  const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+  const [bulkFailures, setBulkFailures] = useState<BulkFailures | null>(null);
+  // Bumped by every fetch, so a slow response for filters that are no longer applied is dropped
+  const fetchSeqRef = useRef(0);
   const { showError, showSuccess } = useToast();
-
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:40000/api/v1';
-
-  const fetchNews = async (from?: string, to?: string, status?: string, currentPage?: number, pageSize?: number, isInitial = false, append = false) => {
+  const { trackArticle, subscribe } = useIngestion();
+  const { activeCategories, categoryName } = useCategories();
+  const { openSearch, setFeedFilters, registerPageAction } = useSearch();
+  const { dictionary, tickersFor, tickerName } = useTickers();
+  const { queueCreate } = useOffline();
+  const { deleteWithUndo, isDeleted, subscribe: subscribeDeleted } = useUndoDelete();
+
+  // Loads pages currentPage..throughPage one request at a time; a single large page could be cut short by the backend's size cap
+  const fetchNews = async (from?: string, to?: string, status?: string, category?: string, currentPage?: number, pageSize?: number, isInitial = false, append = false, throughPage?: number) => {
+    const seq = ++fetchSeqRef.current;
     if (isInitial) {
       setInitialLoading(true);
     } else if (append) {
@@ -69,220 +100,179 @@ export default function Home() {
     }
 
     try {
-      let url = `${API_BASE_URL}/news`;
-      const params = new URLSearchParams();
-
-      // Convert YYYY-MM-DD to RFC3339 format for Go time.Time parsing
-      if (from) {
-        const fromDateTime = `${from}T00:00:00Z`;
-        params.append('from', fromDateTime);
-      }
-      if (to) {
-        const toDateTime = `${to}T23:59:59Z`;
-        params.append('to', toDateTime);
-      }
-      if (status) {
-        params.append('status', status);
-      }
-
-      // Add pagination parameters
-      params.append('page', String(currentPage || page));
-      params.append('size', String(pageSize || size));
-
-      if (params.toString()) {
-        url += `?${params.toString()}`;
+      const firstPage = currentPage || page;
+      const lastPage = Math.max(firstPage, throughPage ?? firstPage);
+      const items: NewsItem[] = [];
+      const invalid: InvalidItem[] = [];
+      let loadedPage = firstPage;
+      let loadedPagination: Pagination | undefined;
+      for (let pageNumber = firstPage; pageNumber <= lastPage; pageNumber++) {
+        const data = await listNews({
+          from,
+          to,
+          status,
+          category,
+          page: pageNumber,
+          size: pageSize || size
+        });
+        if (seq !== fetchSeqRef.current) return;
+
+        loadedPage = pageNumber;
+        items.push(...data.data);
+        invalid.push(...data.invalid);
+        loadedPagination = data.pagination || loadedPagination;
+        if (data.data.length === 0 || (data.pagination && pageNumber >= data.pagination.total_pages)) break;
       }
-
-      const response = await fetch(url);
-
-      if (!response.ok) {
-        router.push(`/error?code=${response.status}&message=${encodeURIComponent(response.statusText)}`);
-        return;
-      }
-
-      const data: NewsResponse = await response.json();
+      setPage(loadedPage);
 
       if (append) {
-        setNews(prev => [...prev, ...(data.data || [])]);
+        setNews(prev => [...prev, ...items]);
+        setInvalidNews(prev => [...prev, ...invalid]);
       } else {
-        setNews(data.data);
+        setNews(items);
+        setInvalidNews(invalid);
       }
 
-      if (data.pagination) {
-        setPagination(data.pagination);
+      if (loadedPagination) {
+        setPagination(loadedPagination);
       }
-      setInitialLoading(false);
-      setSearching(false);
-      setLoadingMore(false);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Network connection failed';
-      router.push(`/error?code=503&message=${encodeURIComponent(errorMessage)}`);
+      if (seq !== fetchSeqRef.current) return;
+      router.push(errorPagePath(err));
+    } finally {
+      if (seq === fetchSeqRef.current) {
+        setInitialLoading(false);
+        setSearching(false);
+        setLoadingMore(false);
+      }
     }
   };
 
+  // Push a new filter state onto the history; the effect watching filterKey does the fetching
+  const applyFilters = (next: FeedFilters) => {
+    const query = buildFeedQuery({ ...next, page: 1 }); // Reset to first page when filters change
+
+    if (feedFilterKey(next) === filterKey) {
+      // Same filters re-applied: the URL won't change, so refresh directly
+      setPage(1);
+      router.replace(query ? `/?${query}` : '/', { scroll: false });
+      fetchNews(next.from, next.to, next.status, next.category, 1, size, false, false);
+      return;
+    }
+
+    router.push(query ? `/?${query}` : '/', { scroll: false });
+  };
+
   const handleFilter = () => {
-    setPage(1); // Reset to first page when applying filters
-    fetchNews(dateRange.from, dateRange.to, statusFilter, 1, size, false, false);
+    applyFilters({ ...filters, from: dateRange.from, to: dateRange.to, status: statusFilter, category: categoryFilter, ticker: tickerFilter, sentiment: sentimentFilter });
   };
 
   const handleClearFilter = () => {
     setDateRange({ from: '', to: '' });
     setStatusFilter('');
-    setPage(1); // Reset to first page
-    fetchNews(undefined, undefined, undefined, 1, size, false, false);
+    setCategoryFilter('');
+    setTickerFilter('');
+    setSentimentFilter('');
+    applyFilters({ ...filters, from: '', to: '', status: '', category: '', ticker: '', sentiment: '' });
+  };
+
+  const canLoadMore = !initialLoading && !searching && !loadingMore && pagination && news.length < pagination.total;
+
+  const loadMore = () => {
+    const nextPage = page + 1;
+    setPage(nextPage);
+    fetchNews(filters.from, filters.to, filters.status, filters.category, nextPage, size, false, true);
+    // Record loaded depth without adding a history entry per page
+    router.replace(`/?${buildFeedQuery({ ...filters, page: nextPage })}`, { scroll: false });
   };
 
   // Handle scroll to load more
   const handleScroll = () => {
-    if (
-      !initialLoading &&
-      !searching &&
-      !loadingMore &&
-      pagination &&
-      news.length < pagination.total
-    ) {
+    if (canLoadMore) {
       const scrollTop = window.pageYOffset || document.documentElement.scrollTop;
       const scrollHeight = document.documentElement.scrollHeight;
       const clientHeight = document.documentElement.clientHeight;
 
       // Load more when within 300px of bottom
       if (scrollTop + clientHeight >= scrollHeight - 300) {
-        const nextPage = page + 1;
-        setPage(nextPage);
-        fetchNews(dateRange.from, dateRange.to, statusFilter, nextPage, size, false, true);
+        loadMore();
       }
     }
   };
 
-  // Function to check status of a specific news item
-  const checkNewsStatus = async (newsId: string) => {
-    try {
-      const response = await fetch(`${API_BASE_URL}/news/${newsId}`);
-
-      if (response.ok) {
-        const newsData = await response.json();
-        const updatedNewsItem = newsData.data;
-        const newStatus = updatedNewsItem.status;
-
-        // Update the news item with all the latest data
-        if (newStatus !== 'added') {
-          setNews(prevNews =>
-            prevNews.map(item =>
-              item.id === newsId ? {
-                id: updatedNewsItem.id,
-                title: updatedNewsItem.title || item.title,
-                thumbnail: updatedNewsItem.thumbnail || item.thumbnail,
-                status: updatedNewsItem.status,
-                published_at: updatedNewsItem.published_at || item.published_at,
-                author: updatedNewsItem.author || item.author,
-                content: updatedNewsItem.content || item.content
-              } : item
-            )
-          );
-          return newStatus;
-        }
-      }
-      return 'added';
-    } catch (error) {
-      console.error('Error checking news status:', error);
-      return 'added';
-    }
-  };
-
-  // Start polling for news status updates
-  const startPollingNewsStatus = (newsId: string) => {
-    // Clear any existing polling interval
-    if (activePollingInterval) {
-      clearInterval(activePollingInterval);
-    }
-
-    setPollingNewsId(newsId);
-    let pollCount = 0;
-    const maxPolls = 12; // 12 polls × 5 seconds = 1 minute
-
-    const pollInterval = setInterval(async () => {
-      pollCount++;
-
-      const status = await checkNewsStatus(newsId);
-
-      // Stop polling if status changed from 'added' or max time reached
-      if (status !== 'added' || pollCount >= maxPolls) {
-        clearInterval(pollInterval);
-        setPollingNewsId(null);
-        setActivePollingInterval(null);
-      }
-    }, 5000); // Poll every 5 seconds
-
-    // Store the interval ID for cleanup
-    setActivePollingInterval(pollInterval);
-  };
-
-  const handleAddNews = async (newsData: { url: string; category: string }) => {
+  const handleAddNews = async (newsData: CreateNewsInput) => {
     setSubmitting(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/news`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          url: newsData.url,
-          category: newsData.category
-        }),
+      const createdNewsItem = await createNews({
+        url: newsData.url,
+        category: newsData.category
       });
 
-      if (!response.ok) {
-        if (response.status === 409) {
-          showError('This news article already exists.');
-          return;
-        }
-
-        // Handle specific error codes
-        try {
-          const errorData = await response.json();
-          if (errorData.errors && errorData.errors[0]) {
-            if (errorData.errors[0].code === 'CODE_PUBLISHER_NOT_FOUND') {
-              showError('The publisher domain is not existed. Try to add publisher first.');
-              return;
-            }
-            if (errorData.errors[0].code === 'CODE_URL_TOO_LONG') {
-              showError('The URL is too long. Please use a shorter URL.');
-              return;
-            }
-            if (errorData.errors[0].code === 'CODE_URL_INVALID') {
-              showError('The URL format is invalid. Please enter a valid URL.');
-              return;
-            }
-          }
-        } catch (parseError) {
-          // If we can't parse the response, fall through to generic error handling
-        }
-
-        router.push(`/error?code=${response.status}&message=${encodeURIComponent(response.statusText)}`);
-        return;
-      }
-
-      // Get the created news item from response
-      const responseData = await response.json();
-      const createdNewsItem = responseData.data;
-
       // Add the new news item to the beginning of the list (most recent first)
       if (createdNewsItem) {
         setNews(prevNews => [createdNewsItem, ...prevNews]);
         showSuccess('News article added successfully!');
         setIsModalOpen(false);
 
-        // Start polling for status updates
-        startPollingNewsStatus(createdNewsItem.id);
+        // Track ingestion until the backend syncs or fails it
+        trackArticle(createdNewsItem);
       }
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Network connection failed';
-      router.push(`/error?code=503&message=${encodeURIComponent(errorMessage)}`);
+      if (isNetworkError(err)) {
+        queueCreate(newsData);
+        setIsModalOpen(false);
+        return;
+      }
+      const message = createNewsErrorMessage(err);
+      if (message) {
+        showError(message);
+        return;
+      }
+      router.push(errorPagePath(err));
     } finally {
       setSubmitting(false);
     }
   };
 
+  // Bulk import submits rows one by one; errors propagate so AddNewsModal can report each row
+  const handleImportNews = async (newsData: CreateNewsInput) => {
+    const createdNewsItem = await createNews(newsData);
+
+    if (createdNewsItem) {
+      setNews(prevNews => [createdNewsItem, ...prevNews]);
+      trackArticle(createdNewsItem);
+    }
+  };
+
+  // Re-sync failed articles and hand them to the ingestion tracker
+  const retryArticles = async (items: NewsItem[]) => {
+    const ids = items.map(item => item.id);
+    setRetryingIds(prev => new Set([...prev, ...ids]));
+
+    const results = await runWithConcurrency(items, 3, item => retryNews(item.id));
+    const retried: NewsItem[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        retried.push(result.value || { ...items[index], status: 'added' });
+      } else {
+        console.error(`Error retrying news ${items[index].id}:`, result.reason);
+      }
+    });
+
+    const retriedIds = new Set(retried.map(item => item.id));
+    setNews(prevNews => prevNews.map(item => retriedIds.has(item.id) ? { ...item, status: 'added' } : item));
+    retried.forEach(item => trackArticle(item));
+    setRetryingIds(prev => new Set([...prev].filter(id => !ids.includes(id))));
+
+    const failedCount = items.length - retried.length;
+    if (retried.length > 0) {
+      showSuccess(retried.length === 1 ? 'Article queued for re-sync.' : `${retried.length} articles queued for re-sync.`);
+    }
+    if (failedCount > 0) {
+      showError(failedCount === 1 ? 'Failed to retry 1 article.' : `Failed to retry ${failedCount} articles.`);
+    }
+  };
+
   // Handle delete news item
   const handleDeleteNews = (newsId: string, newsTitle: string) => {
     setDeleteModal({
@@ -292,101 +282,201 @@ export default function Home() {
     });
   };
 
-  // Confirm delete news item
-  const confirmDeleteNews = async () => {
-    if (!deleteModal.newsId) return;
+  // Hide the news item now; the delete is sent once the undo grace period ends
+  const confirmDeleteNews = () => {
+    const item = news.find(entry => entry.id === deleteModal.newsId);
+    setDeleteModal({ isOpen: false, newsId: '', newsTitle: '' });
+    if (item) deleteWithUndo([item]);
+  };
 
-    setDeleting(true);
-    try {
-      const response = await fetch(`${API_BASE_URL}/news/${deleteModal.newsId}`, {
-        method: 'DELETE',
-      });
+  // Cancel delete
+  const cancelDelete = () => {
+    setDeleteModal({ isOpen: false, newsId: '', newsTitle: '' });
+  };
 
-      if (!response.ok) {
-        if (response.status === 409) {
-          showError('Cannot delete this news item due to a conflict.');
-          return;
-        }
+  // Tickers and sentiment are worked out in the browser, so these filters narrow what has been loaded so far
+  const hasClientFilters = Boolean(filters.ticker || filters.sentiment);
+  const matchesClientFilters = (item: NewsItem) =>
+    (!filters.ticker || tickersFor(item).includes(filters.ticker)) &&
+    (!filters.sentiment || articleSentiment(item).label === filters.sentiment);
+  // Deletes waiting out the undo period or queued while offline stay hidden, even when the feed comes from the offline cache
+  const listedNews = news.filter(item => !isDeleted(item.id));
+  const listedTotal = pagination.total - (news.length - listedNews.length);
+  const visibleNews = hasClientFilters ? listedNews.filter(matchesClientFilters) : listedNews;
+  const failedNews = visibleNews.filter(item => item.status === 'failed');
+  const selectedItems = visibleNews.filter(item => selectedIds.has(item.id));
+  const selectedFailed = selectedItems.filter(item => item.status === 'failed');
+
+  const exitSelectionMode = () => {
+    setSelectionMode(false);
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  };
+
+  // Click toggles one card; shift-click selects every card between it and the last one clicked
+  const handleSelect = (item: NewsItem, e: React.MouseEvent) => {
+    const anchorIndex = visibleNews.findIndex(entry => entry.id === selectionAnchorRef.current);
+    const index = visibleNews.findIndex(entry => entry.id === item.id);
+
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (e.shiftKey && anchorIndex !== -1) {
+        const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        visibleNews.slice(start, end + 1).forEach(entry => next.add(entry.id));
+      } else if (next.has(item.id)) {
+        next.delete(item.id);
+      } else {
+        next.add(item.id);
+      }
+      return next;
+    });
+    selectionAnchorRef.current = item.id;
+  };
+
+  // Run a bulk action a few items at a time, counting progress as each one settles
+  const runBulkAction = async <R,>(label: string, items: NewsItem[], task: (item: NewsItem) => Promise<R>) => {
+    setBulkFailures(null);
+    setBulkProgress({ label, done: 0, total: items.length });
+    const results = await runWithConcurrency(items, 3, async item => {
+      try {
+        return await task(item);
+      } finally {
+        setBulkProgress(prev => prev && { ...prev, done: prev.done + 1 });
+      }
+    });
+    setBulkProgress(null);
+    return results;
+  };
 
-        // Handle specific error codes if needed
-        try {
-          const errorData = await response.json();
-          if (errorData.errors && errorData.errors[0]) {
-            showError(`Failed to delete news item: ${errorData.errors[0].message || 'Unknown error'}`);
-            return;
-          }
-        } catch (parseError) {
-          // Fall through to generic error handling
+  const confirmBulkDelete = () => {
+    const items = selectedItems;
+    setBulkDeleteOpen(false);
+    setBulkFailures(null);
+    setSelectedIds(new Set());
+
+    deleteWithUndo(items, {
+      onProgress: (done, total) => setBulkProgress({ label: 'Deleting', done, total }),
+      onSettled: failures => {
+        setBulkProgress(null);
+        // Select the failures again so they can be retried
+        setSelectedIds(new Set(failures.map(failure => failure.item.id)));
+        if (failures.length > 0) {
+          setBulkFailures({ action: 'deleted', failures });
         }
+      }
+    });
+  };
 
-        router.push(`/error?code=${response.status}&message=${encodeURIComponent(response.statusText)}`);
-        return;
+  const bulkRetry = async () => {
+    const items = selectedFailed;
+
+    const results = await runBulkAction('Retrying', items, item => retryNews(item.id));
+    const retried: NewsItem[] = [];
+    const failures: BulkFailures['failures'] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        retried.push(result.value || { ...items[index], status: 'added' });
+      } else {
+        failures.push({ item: items[index], message: bulkErrorMessage(result.reason) });
       }
+    });
 
-      // Remove the news item from the local state
-      setNews(prevNews => prevNews.filter(item => item.id !== deleteModal.newsId));
-      showSuccess('News article deleted successfully!');
+    const retriedIds = new Set(retried.map(item => item.id));
+    setNews(prevNews => prevNews.map(item => retriedIds.has(item.id) ? { ...item, status: 'added' } : item));
+    retried.forEach(item => trackArticle(item));
 
-      // Close the modal
-      setDeleteModal({ isOpen: false, newsId: '', newsTitle: '' });
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Network connection failed';
-      router.push(`/error?code=503&message=${encodeURIComponent(errorMessage)}`);
-    } finally {
-      setDeleting(false);
+    if (retried.length > 0) {
+      showSuccess(retried.length === 1 ? 'Article queued for re-sync.' : `${retried.length} articles queued for re-sync.`);
+    }
+    if (failures.length > 0) {
+      setBulkFailures({ action: 'retried', failures });
     }
   };
 
-  // Cancel delete
-  const cancelDelete = () => {
-    setDeleteModal({ isOpen: false, newsId: '', newsTitle: '' });
-  };
+  const clientFilterLabel = [
+    filters.ticker && `mention ${tickerName(filters.ticker)} (${filters.ticker})`,
+    filters.sentiment && `read as ${filters.sentiment}`
+  ].filter(Boolean).join(' and ');
 
-  const formatDate = (dateString?: string) => {
-    if (!dateString) return '';
-    try {
-      const date = new Date(dateString);
-      return date.toLocaleDateString('en-US', {
-        year: 'numeric',
-        month: 'short',
-        day: 'numeric'
-      });
-    } catch {
-      return dateString;
-    }
-  };
+  // Load the feed whenever the filters in the URL change (initial load, Apply, back/forward)
+  useEffect(() => {
+    setDateRange({ from: filters.from, to: filters.to });
+    setStatusFilter(filters.status);
+    setCategoryFilter(filters.category);
+    setTickerFilter(filters.ticker);
+    setSentimentFilter(filters.sentiment);
+    setPage(filters.page);
+    setSelectedIds(new Set());
+    // Restore the loaded depth by reading pages 1..N
+    fetchNews(filters.from, filters.to, filters.status, filters.category, 1, size, initialLoading, false, filters.page);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [filterKey]);
+
+  // Drop articles once their delete has gone through, and take them off the total
+  const newsRef = useRef(news);
+  useEffect(() => {
+    newsRef.current = news;
+  });
 
   useEffect(() => {
-    fetchNews(undefined, undefined, undefined, 1, 30, true, false);
-  }, []);
+    return subscribeDeleted(ids => {
+      const removed = newsRef.current.filter(item => ids.includes(item.id)).length;
+      if (removed === 0) return;
 
-  // Cleanup polling interval on component unmount
+      setNews(prevNews => prevNews.filter(item => !ids.includes(item.id)));
+      setPagination(prev => ({ ...prev, total: Math.max(0, prev.total - removed) }));
+    });
+  }, [subscribeDeleted]);
+
+  // Merge pushed or polled changes into the loaded items
   useEffect(() => {
-    return () => {
-      if (activePollingInterval) {
-        clearInterval(activePollingInterval);
+    return subscribe((updatedNewsItem, change) => {
+      if (change === 'created') {
+        // Only prepend new articles when they belong in the current unfiltered-by-date view
+        const matchesFilters = !filters.from && !filters.to &&
+          (!filters.status || filters.status === updatedNewsItem.status) &&
+          (!filters.category || filters.category === updatedNewsItem.category);
+        if (matchesFilters) {
+          setNews(prevNews =>
+            prevNews.some(item => item.id === updatedNewsItem.id) ? prevNews : [updatedNewsItem, ...prevNews]
+          );
+        }
+        return;
       }
-    };
-  }, [activePollingInterval]);
+
+      setNews(prevNews =>
+        prevNews.map(item =>
+          item.id === updatedNewsItem.id ? {
+            ...item,
+            title: updatedNewsItem.title || item.title,
+            thumbnail: updatedNewsItem.thumbnail || item.thumbnail,
+            status: updatedNewsItem.status,
+            published_at: updatedNewsItem.published_at || item.published_at,
+            author: updatedNewsItem.author || item.author,
+            content: updatedNewsItem.content || item.content,
+            category: updatedNewsItem.category || item.category
+          } : item
+        )
+      );
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [subscribe, filterKey]);
 
   // Add scroll listener
   useEffect(() => {
     window.addEventListener('scroll', handleScroll);
     return () => window.removeEventListener('scroll', handleScroll);
-  }, [initialLoading, searching, loadingMore, pagination, news.length, page, dateRange, statusFilter]);
+  }, [initialLoading, searching, loadingMore, pagination, news.length, page, filterKey]);
 
-  // Handle Cmd+K / Ctrl+K to open search modal
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
-        e.preventDefault();
-        setIsSearchModalOpen(true);
-      }
-    };
+  // "Add news" from the command palette
+  useEffect(() => registerPageAction('add-news', () => setIsModalOpen(true)), [registerPageAction]);
 
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
-  }, []);
+  // Let the search modal offer the applied feed filters while this page is open
+  useEffect(() => {
+    setFeedFilters(filters);
+    return () => setFeedFilters(undefined);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [setFeedFilters, filterKey]);
 
   if (initialLoading) {
     return (
@@ -398,13 +488,13 @@ export default function Home() {
 
   return (
     <div className="min-h-screen">
-      <div className="container mx-auto px-6 py-8">
+      <div className={`container mx-auto px-6 py-8 ${selectionMode ? 'pb-28' : ''}`}>
         <div className="flex justify-between items-center mb-8">
           <h1 className="text-title font-bold text-gray-800">News Feed</h1>
           <div className="flex items-center gap-3">
             {/* Search Button */}
             <button
-              onClick={() => setIsSearchModalOpen(true)}
+              onClick={() => openSearch()}
               className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors flex items-center gap-2"
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -413,6 +503,30 @@ export default function Home() {
               <span className="hidden sm:inline">Search</span>
             </button>
 
+            {/* Selection Mode Toggle */}
+            <button
+              onClick={() => selectionMode ? exitSelectionMode() : setSelectionMode(true)}
+              disabled={searching || Boolean(bulkProgress)}
+              aria-pressed={selectionMode}
+              className={`px-4 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors flex items-center gap-2 ${
+                selectionMode
+                  ? 'bg-blue-50 border-blue-200 text-blue-700 hover:bg-blue-100'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+              </svg>
+              <span className="hidden sm:inline">{selectionMode ? 'Done' : 'Select'}</span>
+            </button>
+
+            {/* Export Menu */}
+            <ExportMenu
+              params={{ from: filters.from, to: filters.to, status: filters.status, category: filters.category }}
+              matches={hasClientFilters ? matchesClientFilters : undefined}
+              disabled={searching}
+            />
+
             {/* Add News Button */}
             <button
               onClick={() => setIsModalOpen(true)}
@@ -459,6 +573,71 @@ export default function Home() {
                 <option value="failed">Failed</option>
               </select>
             </div>
+
+            {/* Category Filter */}
+            <div>
+              <label className="block text-body-sm font-medium text-gray-700 mb-2">
+                Category Filter
+              </label>
+              <select
+                value={categoryFilter}
+                onChange={(e) => setCategoryFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All Categories</option>
+                {activeCategories.map((category) => (
+                  <option key={category.id} value={category.slug}>
+                    {category.name}
+                  </option>
+                ))}
+                {/* Keep a filter on an archived or unknown category selectable */}
+                {categoryFilter && !activeCategories.some(category => category.slug === categoryFilter) && (
+                  <option value={categoryFilter}>{categoryName(categoryFilter)}</option>
+                )}
+              </select>
+            </div>
+
+            {/* Ticker Filter */}
+            <div>
+              <label className="block text-body-sm font-medium text-gray-700 mb-2">
+                Ticker Filter
+              </label>
+              <select
+                value={tickerFilter}
+                onChange={(e) => setTickerFilter(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All Tickers</option>
+                {dictionary.map((entry) => (
+                  <option key={entry.symbol} value={entry.symbol}>
+                    {entry.symbol} – {entry.name}
+                  </option>
+                ))}
+                {/* Keep a filter on a symbol removed from the dictionary selectable */}
+                {tickerFilter && !dictionary.some(entry => entry.symbol === tickerFilter) && (
+                  <option value={tickerFilter}>{tickerFilter}</option>
+                )}
+              </select>
+            </div>
+
+            {/* Sentiment Filter */}
+            <div>
+              <label className="block text-body-sm font-medium text-gray-700 mb-2">
+                Sentiment Filter
+              </label>
+              <select
+                value={sentimentFilter}
+                onChange={(e) => setSentimentFilter(e.target.value as SentimentLabel | '')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">All Sentiment</option>
+                {SENTIMENT_LABELS.map((label) => (
+                  <option key={label} value={label}>
+                    {label.charAt(0).toUpperCase() + label.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
           {/* Filter Controls */}
@@ -480,27 +659,78 @@ export default function Home() {
               </button>
             </div>
 
-            {/* Active Filters Display */}
-            {(dateRange.from || dateRange.to || statusFilter) && (
+            {/* Active Filters Display (mirrors the URL) */}
+            {hasActiveFilters(filters) && (
               <div className="flex items-center text-body-sm text-gray-600 bg-blue-50 px-3 py-2 rounded-md">
                 <span className="mr-2">Active filters:</span>
                 <div className="flex gap-2 flex-wrap">
-                  {dateRange.from && dateRange.to ? (
+                  {(filters.from || filters.to) && (
                     <span className="bg-blue-100 px-2 py-1 rounded text-blue-800">
-                      {dateRange.from} to {dateRange.to}
+                      {filters.from && filters.to
+                        ? `${filters.from} to ${filters.to}`
+                        : filters.from
+                        ? `From ${filters.from}`
+                        : `To ${filters.to}`}
+                      <button
+                        onClick={() => applyFilters({ ...filters, from: '', to: '' })}
+                        disabled={searching}
+                        className="ml-1 hover:text-gray-900 disabled:cursor-not-allowed"
+                        title="Remove date filter"
+                      >
+                        &times;
+                      </button>
                     </span>
-                  ) : dateRange.from ? (
-                    <span className="bg-blue-100 px-2 py-1 rounded text-blue-800">
-                      From {dateRange.from}
+                  )}
+                  {filters.status && (
+                    <span className="bg-green-100 px-2 py-1 rounded text-green-800">
+                      Status: {filters.status}
+                      <button
+                        onClick={() => applyFilters({ ...filters, status: '' })}
+                        disabled={searching}
+                        className="ml-1 hover:text-gray-900 disabled:cursor-not-allowed"
+                        title="Remove status filter"
+                      >
+                        &times;
+                      </button>
                     </span>
-                  ) : dateRange.to ? (
-                    <span className="bg-blue-100 px-2 py-1 rounded text-blue-800">
-                      To {dateRange.to}
+                  )}
+                  {filters.category && (
+                    <span className="bg-purple-100 px-2 py-1 rounded text-purple-800">
+                      Category: {categoryName(filters.category)}
+                      <button
+                        onClick={() => applyFilters({ ...filters, category: '' })}
+                        disabled={searching}
+                        className="ml-1 hover:text-gray-900 disabled:cursor-not-allowed"
+                        title="Remove category filter"
+                      >
+                        &times;
+                      </button>
                     </span>
-                  ) : null}
-                  {statusFilter && (
-                    <span className="bg-green-100 px-2 py-1 rounded text-green-800">
-                      Status: {statusFilter}
+                  )}
+                  {filters.ticker && (
+                    <span className="bg-amber-100 px-2 py-1 rounded text-amber-800">
+                      Ticker: {filters.ticker}
+                      <button
+                        onClick={() => applyFilters({ ...filters, ticker: '' })}
+                        disabled={searching}
+                        className="ml-1 hover:text-gray-900 disabled:cursor-not-allowed"
+                        title="Remove ticker filter"
+                      >
+                        &times;
+                      </button>
+                    </span>
+                  )}
+                  {filters.sentiment && (
+                    <span className="bg-emerald-100 px-2 py-1 rounded text-emerald-800">
+                      Sentiment: {filters.sentiment}
+                      <button
+                        onClick={() => applyFilters({ ...filters, sentiment: '' })}
+                        disabled={searching}
+                        className="ml-1 hover:text-gray-900 disabled:cursor-not-allowed"
+                        title="Remove sentiment filter"
+                      >
+                        &times;
+                      </button>
                     </span>
                   )}
                 </div>
@@ -509,6 +739,48 @@ export default function Home() {
           </div>
         </div>
 
+        {!searching && <MalformedDataNotice items={invalidNews} itemLabel="article" />}
+
+        {/* Bulk retry for failed articles */}
+        {!searching && failedNews.length > 0 && (
+          <div className="mb-6 flex items-center justify-between p-4 bg-red-50 border border-red-200 rounded-lg text-red-800">
+            <span className="text-body-sm font-medium">
+              {failedNews.length} shown article{failedNews.length !== 1 ? 's' : ''} failed to sync.
+            </span>
+            <button
+              onClick={() => retryArticles(failedNews)}
+              disabled={failedNews.every(item => retryingIds.has(item.id))}
+              className="px-4 py-2 text-body-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              Retry all failed
+            </button>
+          </div>
+        )}
+
+        {/* Items a bulk action failed for */}
+        {bulkFailures && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-body-sm font-medium">
+                {bulkFailures.failures.length === 1 ? '1 article' : `${bulkFailures.failures.length} articles`} could not be {bulkFailures.action}:
+              </span>
+              <button
+                onClick={() => setBulkFailures(null)}
+                className="text-body-sm font-medium text-red-800 hover:text-red-900 underline"
+              >
+                Dismiss
+              </button>
+            </div>
+            <ul className="space-y-1 text-body-sm">
+              {bulkFailures.failures.map(({ item, message }) => (
+                <li key={item.id}>
+                  <span className="font-medium">{item.title || item.id}</span> — {message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {searching ? (
           <div className="text-center text-gray-600 py-8">
             <div className="inline-flex items-center">
@@ -519,106 +791,51 @@ export default function Home() {
               Searching news...
             </div>
           </div>
-        ) : news.length === 0 ? (
+        ) : listedNews.length === 0 ? (
           <div className="text-center text-gray-600">
             No news articles found
           </div>
         ) : (
           <>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {news.map((item, index) => (
-              <div
-                key={item.id || `news-${index}`}
-                onClick={() => router.push(`/news/${item.id}`)}
-                className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow cursor-pointer"
-              >
-                <div className="relative h-48 overflow-hidden">
-                  {item.thumbnail ? (
-                    <img
-                      src={item.thumbnail}
-                      alt={item.title}
-                      className="w-full h-full object-cover"
-                      onError={(e) => {
-                        // Show fallback when image fails to load (CSP blocked or broken URL)
-                        e.currentTarget.style.display = 'none';
-                        const parent = e.currentTarget.parentElement;
-                        if (parent) {
-                          parent.innerHTML = '<div class="w-full h-full bg-gray-200 flex items-center justify-center"><span class="text-gray-500 text-body-sm">Image blocked</span></div>';
-                        }
-                      }}
-                    />
-                  ) : (
-                    <div className="w-full h-full bg-gray-200 flex items-center justify-center">
-                      <span className="text-gray-500 text-body-sm">No image</span>
-                    </div>
-                  )}
-                </div>
-                <div className="p-4">
-                  <div className="flex justify-between items-start mb-2">
-                    <h2 className="text-heading-sm font-semibold text-gray-800 hover:text-blue-600 transition-colors flex-1">{item.title}</h2>
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation(); // Prevent card click navigation
-                        handleDeleteNews(item.id, item.title);
-                      }}
-                      className="ml-2 p-1 text-red-500 hover:text-red-700 hover:bg-red-50 rounded transition-colors"
-                      title="Delete news item"
-                    >
-                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-                      </svg>
-                    </button>
-                  </div>
-
-                  {/* Published Date */}
-                  {item.published_at && (
-                    <div className="flex items-center text-gray-500 text-body-sm mb-2">
-                      <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                      </svg>
-                      <span>{formatDate(item.published_at)}</span>
-                    </div>
-                  )}
-
-                  {/* Content Preview */}
-                  {item.content && (
-                    <p className="text-body-sm text-gray-600 mb-3 line-clamp-3">
-                      {item.content}
-                    </p>
-                  )}
-
-                  <div className="flex justify-between items-center">
-                    <span className={`inline-block px-2 py-1 rounded text-body-sm font-medium ${
-                      item.status === 'synced'
-                        ? 'bg-green-100 text-green-800'
-                        : item.status === 'failed'
-                        ? 'bg-red-100 text-red-800'
-                        : item.status === 'added'
-                        ? 'bg-blue-100 text-blue-800'
-                        : 'bg-gray-100 text-gray-800'
-                    }`}>
-                      {item.status}
-                    </span>
-
-                    {/* Author */}
-                    {item.author && (
-                      <div className="flex items-center text-gray-500 text-body-sm">
-                        <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
-                        </svg>
-                        <span>{item.author}</span>
-                      </div>
-                    )}
-                  </div>
-                </div>
+            {visibleNews.length === 0 && (
+              <div className="text-center text-gray-600">
+                None of the {listedNews.length} loaded article{listedNews.length !== 1 ? 's' : ''} {clientFilterLabel}
               </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {visibleNews.map((item, index) => (
+                <NewsCard
+                  key={item.id || `news-${index}`}
+                  item={item}
+                  onDelete={(newsItem) => handleDeleteNews(newsItem.id, newsItem.title)}
+                  onRetry={(newsItem) => retryArticles([newsItem])}
+                  retrying={retryingIds.has(item.id)}
+                  selectable={selectionMode}
+                  selected={selectedIds.has(item.id)}
+                  onSelect={handleSelect}
+                />
               ))}
             </div>
 
             {/* Pagination Info */}
-            {pagination && pagination.total > 0 && (
+            {pagination && listedTotal > 0 && (
               <div className="mt-6 text-center text-sm text-gray-600">
-                Showing {news.length} of {pagination.total} article{pagination.total !== 1 ? 's' : ''}
+                {hasClientFilters
+                  ? `${visibleNews.length} of ${listedNews.length} loaded article${listedNews.length !== 1 ? 's' : ''} ${clientFilterLabel} (${listedTotal} in total)`
+                  : `Showing ${listedNews.length} of ${listedTotal} article${listedTotal !== 1 ? 's' : ''}`}
+              </div>
+            )}
+
+            {/* Matches can be sparse, so the page may be too short to scroll for more */}
+            {hasClientFilters && canLoadMore && (
+              <div className="mt-4 text-center">
+                <button
+                  onClick={loadMore}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+                >
+                  Load more articles
+                </button>
               </div>
             )}
 
@@ -658,23 +875,102 @@ export default function Home() {
           isOpen={isModalOpen}
           onClose={() => setIsModalOpen(false)}
           onSubmit={handleAddNews}
+          onImport={handleImportNews}
           loading={submitting}
         />
 
+        {/* Bulk Actions */}
+        {selectionMode && (
+          <div className="fixed bottom-6 left-64 right-0 z-30 flex justify-center px-6 pointer-events-none">
+            <div className="pointer-events-auto bg-white border border-gray-200 rounded-lg shadow-xl px-4 py-3 flex flex-wrap items-center gap-3">
+              {bulkProgress ? (
+                <div className="w-72" role="status">
+                  <p className="text-body-sm text-gray-700 mb-1">
+                    {bulkProgress.label} {bulkProgress.done} of {bulkProgress.total}...
+                  </p>
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 transition-all"
+                      style={{ width: `${bulkProgress.total > 0 ? (bulkProgress.done / bulkProgress.total) * 100 : 0}%` }}
+                    />
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <span className="text-body-sm font-medium text-gray-800">{selectedItems.length} selected</span>
+                  <button
+                    onClick={() => setSelectedIds(new Set(visibleNews.map(item => item.id)))}
+                    disabled={visibleNews.length === 0}
+                    className="text-body-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                  >
+                    Select all loaded ({visibleNews.length})
+                  </button>
+                  {selectedItems.length > 0 && (
+                    <button
+                      onClick={() => setSelectedIds(new Set())}
+                      className="text-body-sm text-gray-600 hover:text-gray-800"
+                    >
+                      Clear
+                    </button>
+                  )}
+                  <span className="w-px h-6 bg-gray-200" aria-hidden="true" />
+                  <button
+                    onClick={bulkRetry}
+                    disabled={selectedFailed.length === 0}
+                    className="px-3 py-1.5 text-body-sm font-medium text-red-700 border border-red-200 rounded-md hover:bg-red-50 disabled:text-gray-400 disabled:border-gray-200 disabled:bg-white disabled:cursor-not-allowed transition-colors"
+                    title="Re-sync the selected articles that failed"
+                  >
+                    Retry failed ({selectedFailed.length})
+                  </button>
+                  <ExportMenu
+                    params={{ from: filters.from, to: filters.to, status: filters.status, category: filters.category }}
+                    items={selectedItems}
+                    disabled={selectedItems.length === 0}
+                    menuPlacement="above"
+                  />
+                  <button
+                    onClick={() => setBulkDeleteOpen(true)}
+                    disabled={selectedItems.length === 0}
+                    className="px-3 py-1.5 text-body-sm font-medium text-white bg-red-600 rounded-md hover:bg-red-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={exitSelectionMode}
+                    className="text-body-sm text-gray-600 hover:text-gray-800"
+                  >
+                    Done
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DeleteConfirmModal
+          isOpen={bulkDeleteOpen}
+          onClose={() => setBulkDeleteOpen(false)}
+          onConfirm={confirmBulkDelete}
+          title="Delete News Articles"
+          message={`Are you sure you want to delete ${selectedItems.length === 1 ? 'the selected article' : `these ${selectedItems.length} articles`}? You can undo this for a few seconds.`}
+        />
+
         <DeleteConfirmModal
           isOpen={deleteModal.isOpen}
           onClose={cancelDelete}
           onConfirm={confirmDeleteNews}
           title="Delete News Article"
-          message={`Are you sure you want to delete "${deleteModal.newsTitle}"? This action cannot be undone.`}
-          loading={deleting}
-        />
-
-        <SearchModal
-          isOpen={isSearchModalOpen}
-          onClose={() => setIsSearchModalOpen(false)}
+          message={`Are you sure you want to delete "${deleteModal.newsTitle}"? You can undo this for a few seconds.`}
         />
       </div>
     </div>
   );
 }
+
+export default function Home() {
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-gray-50 flex items-center justify-center"><div className="text-heading-sm">Loading news...</div></div>}>
+      <NewsFeed />
+    </Suspense>
+  );
+}
\ No newline at end of file
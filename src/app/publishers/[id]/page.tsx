@@ -3,31 +3,28 @@
 import { useState, useEffect } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useToast } from '@/context/ToastContext';
+import DeleteConfirmModal from '@/components/DeleteConfirmModal';
+import PublisherArticles from '@/components/PublisherArticles';
+import { ApiError, Publisher, deletePublisher, errorPagePath, getPublisher, updatePublisher } from '@/utils/api';
+import { ValidationError, ValidationIssue } from '@/utils/schema';
+import { PublisherInputErrors, publisherErrorMessage, validatePublisherInput } from '@/utils/publisherInput';
 
 export const dynamic = 'force-dynamic';
 
-interface PublisherDetail {
-  id: string;
-  name: string;
-  description: string;
-  domain: string;
-  website?: string;
-  created_at?: string;
-  updated_at?: string;
-}
-
-interface PublisherDetailResponse {
-  data: PublisherDetail;
-}
-
 export default function PublisherDetailPage() {
-  const [publisherDetail, setPublisherDetail] = useState<PublisherDetail | null>(null);
+  const [publisherDetail, setPublisherDetail] = useState<Publisher | null>(null);
   const [loading, setLoading] = useState(true);
+  const [invalidResponse, setInvalidResponse] = useState<ValidationIssue[] | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [formData, setFormData] = useState({ name: '', domain: '', description: '', website: '' });
+  const [errors, setErrors] = useState<PublisherInputErrors>({});
+  const [saving, setSaving] = useState(false);
+  const [deleteModalOpen, setDeleteModalOpen] = useState(false);
+  const [deleting, setDeleting] = useState(false);
   const router = useRouter();
   const params = useParams();
-  const { showError } = useToast();
+  const { showError, showSuccess } = useToast();
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:40000/api/v1';
   const publisherId = params.id as string;
 
   const fetchPublisherDetail = async () => {
@@ -35,22 +32,18 @@ export default function PublisherDetailPage() {
 
     setLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/publishers/${publisherId}`);
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          router.push('/error?code=404&message=Publisher not found');
-          return;
-        }
-        router.push(`/error?code=${response.status}&message=${encodeURIComponent(response.statusText)}`);
+      const data = await getPublisher(publisherId);
+      setPublisherDetail(data);
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 404) {
+        router.push('/error?code=404&message=Publisher not found');
         return;
       }
-
-      const data: PublisherDetailResponse = await response.json();
-      setPublisherDetail(data.data);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Network connection failed';
-      router.push(`/error?code=503&message=${encodeURIComponent(errorMessage)}`);
+      if (err instanceof ValidationError) {
+        setInvalidResponse(err.issues);
+        return;
+      }
+      router.push(errorPagePath(err));
     } finally {
       setLoading(false);
     }
@@ -60,6 +53,90 @@ export default function PublisherDetailPage() {
     fetchPublisherDetail();
   }, [publisherId]);
 
+  const startEditing = () => {
+    if (!publisherDetail) return;
+
+    setFormData({
+      name: publisherDetail.name,
+      domain: publisherDetail.domain,
+      description: publisherDetail.description || '',
+      website: publisherDetail.website || ''
+    });
+    setErrors({});
+    setEditing(true);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+
+    // Clear error when user starts typing
+    if (errors[name as keyof typeof errors]) {
+      setErrors(prev => ({ ...prev, [name]: undefined }));
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!publisherDetail) return;
+
+    const newErrors = validatePublisherInput(formData);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    // Emptied fields are sent as '' so the backend clears them; undefined would leave them out of the PATCH
+    const input = {
+      name: formData.name.trim(),
+      domain: formData.domain.trim(),
+      description: formData.description.trim(),
+      website: formData.website.trim()
+    };
+
+    setSaving(true);
+    try {
+      const updated = await updatePublisher(publisherDetail.id, input);
+      setPublisherDetail(updated || { ...publisherDetail, ...input });
+      setEditing(false);
+      showSuccess('Publisher updated successfully!');
+    } catch (err) {
+      const message = publisherErrorMessage(err);
+      if (message) {
+        showError(message);
+        return;
+      }
+      router.push(errorPagePath(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteConfirm = async () => {
+    if (!publisherDetail) return;
+
+    setDeleting(true);
+    try {
+      await deletePublisher(publisherDetail.id);
+      showSuccess('Publisher deleted successfully!');
+      router.push('/publishers');
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 409) {
+        showError('This publisher still has articles. Delete its articles before deleting the publisher.');
+        setDeleteModalOpen(false);
+        return;
+      }
+      if (err instanceof ApiError && err.status === 404) {
+        showError('This publisher has already been deleted.');
+        router.push('/publishers');
+        return;
+      }
+      router.push(errorPagePath(err));
+    } finally {
+      setDeleting(false);
+    }
+  };
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return '';
     try {
@@ -84,6 +161,28 @@ export default function PublisherDetailPage() {
     );
   }
 
+  if (invalidResponse) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <div className="max-w-xl w-full p-6 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+          <h1 className="text-heading-sm font-semibold mb-2">This publisher could not be displayed</h1>
+          <p className="text-body-sm mb-3">The server returned data in an unexpected format:</p>
+          <ul className="mb-4 space-y-1 text-caption font-mono">
+            {invalidResponse.map((issue, index) => (
+              <li key={index}>{issue.path} {issue.message}</li>
+            ))}
+          </ul>
+          <button
+            onClick={() => router.back()}
+            className="text-body-sm font-medium underline hover:text-yellow-900"
+          >
+            Go back
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (!publisherDetail) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -108,93 +207,219 @@ export default function PublisherDetailPage() {
 
         {/* Publisher Content */}
         <div className="bg-white rounded-lg shadow-md overflow-hidden">
-          {/* Header */}
-          <div className="p-6 border-b border-gray-200">
-            <div className="flex items-center justify-end mb-4">
-              {/* External Link */}
-              {publisherDetail.website && (
-                <a
-                  href={publisherDetail.website}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+          {editing ? (
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <h2 className="text-xl font-semibold text-gray-900">Edit Publisher</h2>
+
+              <div>
+                <label htmlFor="name" className="block text-body-sm font-medium text-gray-700 mb-1">
+                  Name *
+                </label>
+                <input
+                  type="text"
+                  id="name"
+                  name="name"
+                  value={formData.name}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed ${
+                    errors.name ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="Enter publisher name"
+                />
+                {errors.name && (
+                  <p className="mt-1 text-sm text-red-600">{errors.name}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="domain" className="block text-body-sm font-medium text-gray-700 mb-1">
+                  Domain *
+                </label>
+                <input
+                  type="text"
+                  id="domain"
+                  name="domain"
+                  value={formData.domain}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed ${
+                    errors.domain ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="example.com"
+                />
+                {errors.domain && (
+                  <p className="mt-1 text-sm text-red-600">{errors.domain}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="website" className="block text-body-sm font-medium text-gray-700 mb-1">
+                  Website (Optional)
+                </label>
+                <input
+                  type="url"
+                  id="website"
+                  name="website"
+                  value={formData.website}
+                  onChange={handleChange}
+                  disabled={saving}
+                  className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed ${
+                    errors.website ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                  placeholder="https://example.com"
+                />
+                {errors.website && (
+                  <p className="mt-1 text-sm text-red-600">{errors.website}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="description" className="block text-body-sm font-medium text-gray-700 mb-1">
+                  Description (Optional)
+                </label>
+                <textarea
+                  id="description"
+                  name="description"
+                  value={formData.description}
+                  onChange={handleChange}
+                  disabled={saving}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                  placeholder="Brief description of the publisher"
+                />
+              </div>
+
+              {/* Form Actions */}
+              <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={() => setEditing(false)}
+                  disabled={saving}
+                  className="px-4 py-2 text-body-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:bg-gray-100 disabled:cursor-not-allowed transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 text-body-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+            {/* Header */}
+            <div className="p-6 border-b border-gray-200">
+              <div className="flex items-center justify-end gap-2 mb-4">
+                {/* External Link */}
+                {publisherDetail.website && (
+                  <a
+                    href={publisherDetail.website}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors text-sm"
+                  >
+                    <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                    </svg>
+                    Visit Website
+                  </a>
+                )}
+
+                <button
+                  onClick={startEditing}
+                  className="flex items-center px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-sm"
                 >
                   <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
                   </svg>
-                  Visit Website
-                </a>
-              )}
-            </div>
+                  Edit
+                </button>
 
-            <h1 className="text-3xl font-bold text-gray-900 mb-4 leading-tight">
-              {publisherDetail.name}
-            </h1>
-
-            <div className="flex items-center text-gray-600 text-sm space-x-4">
-              <div className="flex items-center">
-                <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9v-9m0 0V3" />
-                </svg>
-                <span>{publisherDetail.domain}</span>
+                <button
+                  onClick={() => setDeleteModalOpen(true)}
+                  className="flex items-center px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors text-sm"
+                >
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                  Delete
+                </button>
               </div>
 
-              {publisherDetail.created_at && (
+              <h1 className="text-3xl font-bold text-gray-900 mb-4 leading-tight">
+                {publisherDetail.name}
+              </h1>
+
+              <div className="flex items-center text-gray-600 text-sm space-x-4">
                 <div className="flex items-center">
                   <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9v-9m0 0V3" />
                   </svg>
-                  <span>Created {formatDate(publisherDetail.created_at)}</span>
+                  <span>{publisherDetail.domain}</span>
                 </div>
-              )}
-            </div>
-          </div>
 
-          {/* Content */}
-          <div className="p-6">
-            <div className="mb-6">
-              <h2 className="text-xl font-semibold text-gray-900 mb-3">Description</h2>
-              {publisherDetail.description ? (
-                <p className="text-gray-700 leading-relaxed">
-                  {publisherDetail.description}
-                </p>
-              ) : (
-                <p className="text-gray-500 italic">No description available.</p>
-              )}
+                {publisherDetail.created_at && (
+                  <div className="flex items-center">
+                    <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    <span>Created {formatDate(publisherDetail.created_at)}</span>
+                  </div>
+                )}
+              </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              <div className="space-y-3">
-                <div>
-                  <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Domain</h3>
-                  <p className="mt-1 text-gray-900">{publisherDetail.domain}</p>
-                </div>
-
-                {publisherDetail.website && (
-                  <div>
-                    <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Website</h3>
-                    <a
-                      href={publisherDetail.website}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="mt-1 text-blue-600 hover:text-blue-800 underline break-all"
-                    >
-                      {publisherDetail.website}
-                    </a>
-                  </div>
+            {/* Content */}
+            <div className="p-6">
+              <div className="mb-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-3">Description</h2>
+                {publisherDetail.description ? (
+                  <p className="text-gray-700 leading-relaxed">
+                    {publisherDetail.description}
+                  </p>
+                ) : (
+                  <p className="text-gray-500 italic">No description available.</p>
                 )}
               </div>
 
-              <div className="space-y-3">
-                {publisherDetail.updated_at && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="space-y-3">
                   <div>
-                    <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Last Updated</h3>
-                    <p className="mt-1 text-gray-900">{formatDate(publisherDetail.updated_at)}</p>
+                    <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Domain</h3>
+                    <p className="mt-1 text-gray-900">{publisherDetail.domain}</p>
                   </div>
-                )}
+
+                  {publisherDetail.website && (
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Website</h3>
+                      <a
+                        href={publisherDetail.website}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="mt-1 text-blue-600 hover:text-blue-800 underline break-all"
+                      >
+                        {publisherDetail.website}
+                      </a>
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-3">
+                  {publisherDetail.updated_at && (
+                    <div>
+                      <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">Last Updated</h3>
+                      <p className="mt-1 text-gray-900">{formatDate(publisherDetail.updated_at)}</p>
+                    </div>
+                  )}
+                </div>
               </div>
             </div>
-          </div>
+            </>
+          )}
 
           {/* Footer */}
           <div className="px-6 py-4 bg-gray-50 border-t border-gray-200">
@@ -203,6 +428,18 @@ export default function PublisherDetailPage() {
             </div>
           </div>
         </div>
+
+        <PublisherArticles publisherId={publisherDetail.id} />
+
+        {/* Delete Confirmation Modal */}
+        <DeleteConfirmModal
+          isOpen={deleteModalOpen}
+          onClose={() => setDeleteModalOpen(false)}
+          onConfirm={handleDeleteConfirm}
+          title="Delete Publisher"
+          message={`Are you sure you want to delete "${publisherDetail.name}"? This action cannot be undone.`}
+          loading={deleting}
+        />
       </div>
     </div>
   );
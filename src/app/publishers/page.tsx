@@ -3,41 +3,26 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import AddPublisherModal from '@/components/AddPublisherModal';
-import SearchModal from '@/components/SearchModal';
+import MalformedDataNotice from '@/components/MalformedDataNotice';
 import { useToast } from '@/context/ToastContext';
-
-interface Publisher {
-  id: string;
-  name: string;
-  description: string;
-  domain: string;
-  website?: string;
-}
-
-interface PublishersResponse {
-  data: Publisher[];
-  pagination?: {
-    page: number;
-    size: number;
-    total: number;
-    total_pages: number;
-  };
-}
+import { useSearch } from '@/context/SearchContext';
+import { CreatePublisherInput, Pagination, Publisher, createPublisher, errorPagePath, listPublishers } from '@/utils/api';
+import { InvalidItem } from '@/utils/schema';
+import { publisherErrorMessage } from '@/utils/publisherInput';
 
 export default function Publishers() {
   const [publishers, setPublishers] = useState<Publisher[]>([]);
+  const [invalidPublishers, setInvalidPublishers] = useState<InvalidItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize] = useState(30);
-  const [pagination, setPagination] = useState<PublishersResponse['pagination'] | null>(null);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [isSearchModalOpen, setIsSearchModalOpen] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const router = useRouter();
   const { showError, showSuccess } = useToast();
-
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:40000/api/v1';
+  const { openSearch, registerPageAction } = useSearch();
 
   const fetchPublishers = async (page: number = 1, append: boolean = false) => {
     if (append) {
@@ -45,27 +30,19 @@ export default function Publishers() {
     } else {
       setLoading(true);
       setPublishers([]);
+      setInvalidPublishers([]);
       setPagination(null);
     }
 
     try {
-      const params = new URLSearchParams();
-      params.append('page', String(page));
-      params.append('size', String(pageSize));
-
-      const response = await fetch(`${API_BASE_URL}/publishers?${params.toString()}`);
-
-      if (!response.ok) {
-        router.push(`/error?code=${response.status}&message=${encodeURIComponent(response.statusText)}`);
-        return;
-      }
-
-      const data: PublishersResponse = await response.json();
+      const data = await listPublishers({ page, size: pageSize });
 
       if (append) {
-        setPublishers(prev => [...prev, ...(data.data || [])]);
+        setPublishers(prev => [...prev, ...data.data]);
+        setInvalidPublishers(prev => [...prev, ...data.invalid]);
       } else {
-        setPublishers(data.data || []);
+        setPublishers(data.data);
+        setInvalidPublishers(data.invalid);
       }
 
       setPagination(data.pagination || null);
@@ -73,8 +50,7 @@ export default function Publishers() {
       setLoading(false);
       setLoadingMore(false);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Network connection failed';
-      router.push(`/error?code=503&message=${encodeURIComponent(errorMessage)}`);
+      router.push(errorPagePath(err));
     }
   };
 
@@ -98,47 +74,10 @@ export default function Publishers() {
     }
   };
 
-  const handleAddPublisher = async (publisherData: { name: string; domain: string; description?: string }) => {
+  const handleAddPublisher = async (publisherData: CreatePublisherInput) => {
     setSubmitting(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/publishers`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(publisherData),
-      });
-
-      if (!response.ok) {
-        if (response.status === 409) {
-          showError('A publisher with this name or domain already exists.');
-          return;
-        }
-
-        // Handle specific error codes
-        try {
-          const errorData = await response.json();
-          if (errorData.errors && errorData.errors[0]) {
-            if (errorData.errors[0].code === 'CODE_URL_INVALID') {
-              showError('The domain format is invalid. Please enter a valid domain.');
-              return;
-            }
-            if (errorData.errors[0].code === 'CODE_PUBLISHER_NOT_FOUND') {
-              showError('The publisher was not found.');
-              return;
-            }
-            if (errorData.errors[0].code === 'CODE_URL_TOO_LONG') {
-              showError('The domain is too long. Please use a shorter domain.');
-              return;
-            }
-          }
-        } catch (parseError) {
-          // If we can't parse the response, fall through to generic error handling
-        }
-
-        router.push(`/error?code=${response.status}&message=${encodeURIComponent(response.statusText)}`);
-        return;
-      }
+      await createPublisher(publisherData);
 
       // Refresh the publishers list after successful creation
       setCurrentPage(1);
@@ -146,8 +85,12 @@ export default function Publishers() {
       showSuccess('Publisher added successfully!');
       setIsModalOpen(false);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Network connection failed';
-      router.push(`/error?code=503&message=${encodeURIComponent(errorMessage)}`);
+      const message = publisherErrorMessage(err);
+      if (message) {
+        showError(message);
+        return;
+      }
+      router.push(errorPagePath(err));
     } finally {
       setSubmitting(false);
     }
@@ -163,18 +106,8 @@ export default function Publishers() {
     return () => window.removeEventListener('scroll', handleScroll);
   }, [loading, loadingMore, pagination, publishers.length, currentPage]);
 
-  // Handle Cmd+K / Ctrl+K to open search modal
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
-        e.preventDefault();
-        setIsSearchModalOpen(true);
-      }
-    };
-
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
-  }, []);
+  // "Add publisher" from the command palette
+  useEffect(() => registerPageAction('add-publisher', () => setIsModalOpen(true)), [registerPageAction]);
 
   if (loading) {
     return (
@@ -192,7 +125,7 @@ export default function Publishers() {
           <div className="flex items-center gap-3">
             {/* Search Button */}
             <button
-              onClick={() => setIsSearchModalOpen(true)}
+              onClick={() => openSearch()}
               className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors flex items-center gap-2"
             >
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -221,6 +154,8 @@ export default function Publishers() {
           </div>
         )}
 
+        <MalformedDataNotice items={invalidPublishers} itemLabel="publisher" />
+
         {publishers.length === 0 && !loading ? (
           <div className="text-center text-gray-600">
             No publishers found
@@ -302,11 +237,6 @@ export default function Publishers() {
           onSubmit={handleAddPublisher}
           loading={submitting}
         />
-
-        <SearchModal
-          isOpen={isSearchModalOpen}
-          onClose={() => setIsSearchModalOpen(false)}
-        />
       </div>
     </div>
   );
@@ -0,0 +1,165 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import CategoryBadge from '@/components/CategoryBadge';
+import SentimentBadge from '@/components/SentimentBadge';
+import TickerChips from '@/components/TickerChips';
+import { useReadingList } from '@/context/ReadingListContext';
+import { useToast } from '@/context/ToastContext';
+import { ReadingListItem } from '@/utils/readingListDb';
+import { sanitizeHtml } from '@/utils/sanitizeHtml';
+
+const formatDate = (dateString: string) => {
+  try {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  } catch {
+    return dateString;
+  }
+};
+
+// Reads the saved copy only, so it works without the backend
+export default function SavedArticlePage() {
+  const params = useParams();
+  const router = useRouter();
+  const { getSavedArticle, setRead, removeArticle } = useReadingList();
+  const { showSuccess } = useToast();
+  const [saved, setSaved] = useState<ReadingListItem | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const articleId = params.id as string;
+  const article = saved?.article;
+  const savedContent = article?.content;
+  const contentBaseUrl = article?.url;
+  const content = useMemo(
+    () => (savedContent ? sanitizeHtml(savedContent, { baseUrl: contentBaseUrl }) : ''),
+    [savedContent, contentBaseUrl]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getSavedArticle(articleId)
+      .then(item => {
+        if (cancelled) return;
+        setSaved(item || null);
+        if (item && !item.read) setRead(item.id, true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [articleId, getSavedArticle, setRead]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-heading-sm">Loading saved article...</div>
+      </div>
+    );
+  }
+
+  if (!article) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4">
+        <div className="text-heading-sm text-gray-600">This article is not on your reading list</div>
+        <Link href="/reading-list" className="text-blue-600 hover:text-blue-800">
+          Back to Reading List
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen">
+      <div className="container mx-auto px-6 py-8 max-w-4xl">
+        <Link
+          href="/reading-list"
+          className="mb-6 inline-flex items-center text-blue-600 hover:text-blue-800 transition-colors"
+        >
+          <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          Back to Reading List
+        </Link>
+
+        <article className="bg-white rounded-lg shadow-md overflow-hidden">
+          {/* Header */}
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <CategoryBadge slug={article.category} size="md" />
+                <SentimentBadge article={article} size="md" />
+              </div>
+
+              <div className="flex gap-2">
+                <Link
+                  href={`/news/${article.id}`}
+                  className="flex items-center px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors text-body-sm"
+                >
+                  Open live version
+                </Link>
+                <button
+                  onClick={() => {
+                    removeArticle(article.id);
+                    showSuccess('Removed from your reading list.');
+                    router.push('/reading-list');
+                  }}
+                  className="flex items-center px-4 py-2 bg-white border border-red-300 text-red-700 rounded-md hover:bg-red-50 transition-colors text-body-sm"
+                >
+                  Remove
+                </button>
+              </div>
+            </div>
+
+            <h1 className="text-heading-lg font-bold text-gray-900 mb-4 leading-tight">
+              {article.title}
+            </h1>
+
+            <TickerChips article={article} size="md" className="mb-4" />
+
+            <div className="flex flex-wrap items-center text-gray-600 text-body-sm gap-x-4 gap-y-1">
+              {article.author && <span>By {article.author}</span>}
+              {article.published_at && <span>{formatDate(article.published_at)}</span>}
+              <span>Saved {formatDate(new Date(saved.savedAt).toISOString())}</span>
+            </div>
+          </div>
+
+          {/* Content */}
+          <div className="p-6">
+            <div className="prose max-w-none">
+              {content ? (
+                <div
+                  className="text-gray-800 leading-relaxed whitespace-pre-wrap"
+                  dangerouslySetInnerHTML={{ __html: content }}
+                />
+              ) : (
+                <p className="text-gray-600 italic">
+                  No content was saved with this article.
+                  {article.url && (
+                    <>
+                      {' '}
+                      <a href={article.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 not-italic">
+                        Read the original
+                      </a>
+                    </>
+                  )}
+                </p>
+              )}
+            </div>
+          </div>
+        </article>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import CategoryBadge from '@/components/CategoryBadge';
+import { useReadingList } from '@/context/ReadingListContext';
+import { useToast } from '@/context/ToastContext';
+
+type ReadFilter = 'all' | 'unread' | 'read';
+
+const READ_FILTERS: { value: ReadFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'unread', label: 'Unread' },
+  { value: 'read', label: 'Read' }
+];
+
+const formatDate = (value?: string | number) => {
+  if (value === undefined || value === '') return '';
+  try {
+    return new Date(value).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  } catch {
+    return String(value);
+  }
+};
+
+export default function ReadingList() {
+  const { items, unreadCount, setRead, removeArticle } = useReadingList();
+  const { showSuccess } = useToast();
+  const [filter, setFilter] = useState<ReadFilter>('all');
+
+  const visibleItems = items.filter(item =>
+    filter === 'all' || (filter === 'unread' ? !item.read : item.read)
+  );
+
+  return (
+    <div className="min-h-screen">
+      <div className="container mx-auto px-6 py-8 max-w-4xl">
+        <div className="flex justify-between items-start mb-8">
+          <div>
+            <h1 className="text-title font-bold text-gray-800">Reading List</h1>
+            <p className="mt-1 text-body-sm text-gray-600">
+              Saved articles are stored in this browser with their full text, so they can be read offline.
+            </p>
+          </div>
+        </div>
+
+        {/* Read Filter */}
+        <div className="flex gap-2 mb-6" role="tablist">
+          {READ_FILTERS.map(option => (
+            <button
+              key={option.value}
+              role="tab"
+              aria-selected={filter === option.value}
+              onClick={() => setFilter(option.value)}
+              className={`px-3 py-1 rounded-full text-body-sm font-medium transition-colors ${
+                filter === option.value
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-white border border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+              {option.value === 'unread' && unreadCount > 0 && ` (${unreadCount})`}
+            </button>
+          ))}
+        </div>
+
+        {items.length === 0 ? (
+          <div className="text-center text-gray-600 py-8">
+            Your reading list is empty. Use the bookmark on any article to save it here.
+          </div>
+        ) : visibleItems.length === 0 ? (
+          <div className="text-center text-gray-600 py-8">
+            No {filter} articles
+          </div>
+        ) : (
+          <ul className="space-y-4">
+            {visibleItems.map(({ id, article, savedAt, read }) => (
+              <li key={id} className="bg-white rounded-lg shadow-md p-4">
+                <div className="flex justify-between items-start gap-4">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 mb-1">
+                      {!read && <span className="w-2 h-2 rounded-full bg-blue-600 flex-shrink-0" aria-label="Unread" />}
+                      <Link
+                        href={`/reading-list/${id}`}
+                        className={`text-heading-sm hover:text-blue-600 transition-colors ${read ? 'text-gray-600' : 'font-semibold text-gray-800'}`}
+                      >
+                        {article.title}
+                      </Link>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-body-sm text-gray-500">
+                      {article.author && <span>By {article.author}</span>}
+                      {article.published_at && <span>{formatDate(article.published_at)}</span>}
+                      <span>Saved {formatDate(savedAt)}</span>
+                      <CategoryBadge slug={article.category} />
+                    </div>
+                  </div>
+                  <div className="flex gap-3 text-body-sm whitespace-nowrap">
+                    <button
+                      onClick={() => setRead(id, !read)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      {read ? 'Mark as unread' : 'Mark as read'}
+                    </button>
+                    <button
+                      onClick={() => {
+                        removeArticle(id);
+                        showSuccess('Removed from your reading list.');
+                      }}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useState } from 'react';
+import { useTickers } from '@/context/TickerContext';
+import { useToast } from '@/context/ToastContext';
+import { DEFAULT_TICKER_DICTIONARY, TickerSymbol, normalizeTicker } from '@/utils/tickers';
+
+const EMPTY_FORM = { symbol: '', name: '', aliases: '' };
+
+const parseAliases = (value: string) =>
+  value
+    .split(',')
+    .map(alias => alias.trim())
+    .filter(Boolean);
+
+export default function Tickers() {
+  const { dictionary, upsertSymbol, removeSymbol, resetDictionary } = useTickers();
+  const { showSuccess } = useToast();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingSymbol, setEditingSymbol] = useState<string | null>(null);
+  const [errors, setErrors] = useState<{ symbol?: string; name?: string }>({});
+
+  const sortedDictionary = [...dictionary].sort((a, b) => a.symbol.localeCompare(b.symbol));
+  const isDefault = JSON.stringify(dictionary) === JSON.stringify(DEFAULT_TICKER_DICTIONARY);
+
+  const validateForm = () => {
+    const newErrors: { symbol?: string; name?: string } = {};
+    const symbol = normalizeTicker(form.symbol);
+
+    if (!form.symbol.trim()) {
+      newErrors.symbol = 'Symbol is required';
+    } else if (!symbol) {
+      newErrors.symbol = 'Use 1-6 letters or digits, optionally with a class suffix like BRK.B';
+    } else if (symbol !== editingSymbol && dictionary.some(entry => entry.symbol === symbol)) {
+      newErrors.symbol = 'This symbol is already in the dictionary';
+    }
+
+    if (!form.name.trim()) {
+      newErrors.name = 'Company name is required';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    const entry: TickerSymbol = {
+      symbol: normalizeTicker(form.symbol),
+      name: form.name.trim(),
+      aliases: parseAliases(form.aliases)
+    };
+    if (editingSymbol && editingSymbol !== entry.symbol) {
+      removeSymbol(editingSymbol);
+    }
+    upsertSymbol(entry);
+    showSuccess(editingSymbol ? 'Symbol updated successfully!' : 'Symbol added successfully!');
+    setForm(EMPTY_FORM);
+    setEditingSymbol(null);
+  };
+
+  const startEditing = (entry: TickerSymbol) => {
+    setEditingSymbol(entry.symbol);
+    setForm({ symbol: entry.symbol, name: entry.name, aliases: entry.aliases.join(', ') });
+    setErrors({});
+  };
+
+  const cancelEditing = () => {
+    setEditingSymbol(null);
+    setForm(EMPTY_FORM);
+    setErrors({});
+  };
+
+  return (
+    <div className="min-h-screen">
+      <div className="container mx-auto px-6 py-8 max-w-4xl">
+        <div className="flex justify-between items-start mb-8">
+          <div>
+            <h1 className="text-title font-bold text-gray-800">Tickers</h1>
+            <p className="mt-1 text-body-sm text-gray-600">
+              Articles are linked to a symbol when they mention it as $SYMBOL, after an exchange like &quot;NASDAQ: SYMBOL&quot;,
+              or by its company name or an alias. Changes are stored in this browser.
+            </p>
+          </div>
+          {!isDefault && (
+            <button
+              onClick={() => {
+                resetDictionary();
+                cancelEditing();
+                showSuccess('Ticker dictionary reset to defaults.');
+              }}
+              className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors whitespace-nowrap"
+            >
+              Reset to defaults
+            </button>
+          )}
+        </div>
+
+        {/* Add / Edit Symbol */}
+        <form onSubmit={handleSubmit} className="bg-white p-6 rounded-lg shadow-md mb-8">
+          <h2 className="text-heading font-semibold text-gray-800 mb-4">
+            {editingSymbol ? `Edit ${editingSymbol}` : 'Add Symbol'}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_2fr_2fr] gap-4 items-start">
+            <div>
+              <label htmlFor="ticker-symbol" className="block text-body-sm font-medium text-gray-700 mb-1">
+                Symbol *
+              </label>
+              <input
+                type="text"
+                id="ticker-symbol"
+                value={form.symbol}
+                onChange={(e) => {
+                  setForm(prev => ({ ...prev, symbol: e.target.value }));
+                  setErrors(prev => ({ ...prev, symbol: undefined }));
+                }}
+                className={`w-full px-3 py-2 border rounded-md shadow-sm font-mono uppercase focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.symbol ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder="AAPL"
+              />
+              {errors.symbol && (
+                <p className="mt-1 text-body-sm text-red-600">{errors.symbol}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="ticker-name" className="block text-body-sm font-medium text-gray-700 mb-1">
+                Company Name *
+              </label>
+              <input
+                type="text"
+                id="ticker-name"
+                value={form.name}
+                onChange={(e) => {
+                  setForm(prev => ({ ...prev, name: e.target.value }));
+                  setErrors(prev => ({ ...prev, name: undefined }));
+                }}
+                className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  errors.name ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder="Apple"
+              />
+              {errors.name && (
+                <p className="mt-1 text-body-sm text-red-600">{errors.name}</p>
+              )}
+            </div>
+            <div>
+              <label htmlFor="ticker-aliases" className="block text-body-sm font-medium text-gray-700 mb-1">
+                Aliases
+              </label>
+              <input
+                type="text"
+                id="ticker-aliases"
+                value={form.aliases}
+                onChange={(e) => setForm(prev => ({ ...prev, aliases: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Apple Inc, Apple Computer"
+              />
+              <p className="mt-1 text-caption text-gray-500">Comma-separated; matched as written.</p>
+            </div>
+          </div>
+          <div className="flex gap-3 mt-4">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors"
+            >
+              {editingSymbol ? 'Save Symbol' : 'Add Symbol'}
+            </button>
+            {editingSymbol && (
+              <button
+                type="button"
+                onClick={cancelEditing}
+                className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+
+        {/* Symbol List */}
+        {sortedDictionary.length === 0 ? (
+          <div className="text-center text-gray-600">
+            No symbols in the dictionary
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <table className="w-full text-body-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-6 py-3 font-medium">Symbol</th>
+                  <th className="px-6 py-3 font-medium">Company</th>
+                  <th className="px-6 py-3 font-medium">Aliases</th>
+                  <th className="px-6 py-3 font-medium text-right">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedDictionary.map((entry) => (
+                  <tr key={entry.symbol} className="border-t border-gray-100">
+                    <td className="px-6 py-3 font-mono font-medium text-gray-800">{entry.symbol}</td>
+                    <td className="px-6 py-3 text-gray-800">{entry.name}</td>
+                    <td className="px-6 py-3 text-gray-600">{entry.aliases.join(', ') || '—'}</td>
+                    <td className="px-6 py-3">
+                      <div className="flex justify-end gap-3">
+                        <button
+                          onClick={() => startEditing(entry)}
+                          className="text-blue-600 hover:text-blue-800"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => {
+                            removeSymbol(entry.symbol);
+                            if (editingSymbol === entry.symbol) cancelEditing();
+                          }}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,48 +1,82 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import { CreateNewsInput } from '@/utils/api';
+import { useCategories } from '@/context/CategoryContext';
+import { runWithConcurrency } from '@/utils/concurrency';
+import {
+  CreateNewsFailure,
+  MAX_BULK_ROWS,
+  NewsInputErrors,
+  classifyCreateNewsError,
+  parseBulkNewsInput,
+  validateNewsInput
+} from '@/utils/newsInput';
 
 interface AddNewsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (newsData: { url: string; category: string }) => Promise<void>;
+  onSubmit: (newsData: CreateNewsInput) => Promise<void>;
+  // Submits one bulk row; should throw the ApiError on failure so the row outcome can be shown
+  onImport?: (newsData: CreateNewsInput) => Promise<void>;
   loading?: boolean;
 }
 
-const categories = [
-  { value: 'military', label: 'Military' },
-  { value: 'finance', label: 'Finance' }
-];
+type RowOutcome =
+  | { state: 'submitting' }
+  | { state: 'created' }
+  | { state: CreateNewsFailure }
+  | { state: 'error'; message: string };
+
+const BULK_CONCURRENCY = 3;
+
+const outcomeLabels: Record<CreateNewsFailure, string> = {
+  duplicate: 'Already exists (409)',
+  publisher_not_found: 'Publisher not found',
+  url_invalid: 'Invalid URL',
+  url_too_long: 'URL too long',
+};
 
 export default function AddNewsModal({
   isOpen,
   onClose,
   onSubmit,
+  onImport,
   loading = false
 }: AddNewsModalProps) {
+  const { activeCategories, loading: categoriesLoading, loadError: categoriesError } = useCategories();
+  const [mode, setMode] = useState<'single' | 'bulk'>('single');
   const [formData, setFormData] = useState({
     url: '',
     category: ''
   });
 
-  const [errors, setErrors] = useState<{
-    url?: string;
-    category?: string;
-  }>({});
-
+  const [errors, setErrors] = useState<NewsInputErrors>({});
 
-  const validateForm = () => {
-    const newErrors: { url?: string; category?: string } = {};
+  const [bulkText, setBulkText] = useState('');
+  const [bulkCategory, setBulkCategory] = useState('');
+  const [outcomes, setOutcomes] = useState<Record<number, RowOutcome>>({});
+  const [importing, setImporting] = useState(false);
 
-    if (!formData.url.trim()) {
-      newErrors.url = 'URL is required';
-    } else if (!/^https?:\/\/.+\..+/.test(formData.url.trim())) {
-      newErrors.url = 'Please enter a valid URL (e.g., https://example.com/article)';
-    }
+  const bulkRows = useMemo(() => parseBulkNewsInput(
+    bulkText,
+    bulkCategory,
+    // Without a category list there is nothing to check against; the API still rejects unknown ones
+    activeCategories.length > 0 ? activeCategories.map(category => category.slug) : undefined
+  ), [bulkText, bulkCategory, activeCategories]);
+  const validRowCount = bulkRows.filter(row => Object.keys(row.errors).length === 0).length;
+  // Valid rows not yet created; 409 duplicates are final and not worth resubmitting
+  const submittableRows = bulkRows
+    .map((row, index) => ({ row, index }))
+    .filter(({ row, index }) =>
+      Object.keys(row.errors).length === 0 &&
+      outcomes[index]?.state !== 'created' &&
+      outcomes[index]?.state !== 'duplicate'
+    );
+  const busy = loading || importing;
 
-    if (!formData.category.trim()) {
-      newErrors.category = 'Category is required';
-    }
+  const validateForm = () => {
+    const newErrors = validateNewsInput(formData);
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -80,12 +114,82 @@ export default function AddNewsModal({
     }
   };
 
+  const handleBulkTextChange = (text: string) => {
+    setBulkText(text);
+    setOutcomes({}); // Outcomes refer to the previous rows
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    handleBulkTextChange(await file.text());
+    e.target.value = ''; // Allow re-uploading the same file
+  };
+
+  const handleImport = async () => {
+    if (!onImport || submittableRows.length === 0) return;
+
+    setImporting(true);
+    await runWithConcurrency(submittableRows, BULK_CONCURRENCY, async ({ row, index }) => {
+      setOutcomes(prev => ({ ...prev, [index]: { state: 'submitting' } }));
+
+      let outcome: RowOutcome;
+      try {
+        await onImport({ url: row.url.trim(), category: row.category.trim() });
+        outcome = { state: 'created' };
+      } catch (err) {
+        const failure = classifyCreateNewsError(err);
+        outcome = failure
+          ? { state: failure }
+          : { state: 'error', message: err instanceof Error ? err.message : 'Unknown error' };
+      }
+      setOutcomes(prev => ({ ...prev, [index]: outcome }));
+    });
+    setImporting(false);
+  };
+
   const handleClose = () => {
+    if (importing) return;
+
     setFormData({ url: '', category: '' });
     setErrors({});
+    setBulkText('');
+    setBulkCategory('');
+    setOutcomes({});
+    setMode('single');
     onClose();
   };
 
+  const renderOutcome = (index: number, rowErrors: NewsInputErrors) => {
+    if (Object.keys(rowErrors).length > 0) {
+      return <span className="text-red-600">{rowErrors.url || rowErrors.category}</span>;
+    }
+
+    const outcome = outcomes[index];
+    if (!outcome) {
+      return <span className="text-gray-500">Ready</span>;
+    }
+
+    switch (outcome.state) {
+      case 'submitting':
+        return <span className="text-blue-600">Submitting...</span>;
+      case 'created':
+        return <span className="text-green-700 font-medium">Created</span>;
+      case 'duplicate':
+        return <span className="text-yellow-700">{outcomeLabels.duplicate}</span>;
+      case 'error':
+        return <span className="text-red-600">Failed: {outcome.message}</span>;
+      default:
+        return <span className="text-red-600">{outcomeLabels[outcome.state]}</span>;
+    }
+  };
+
+  const createdCount = Object.values(outcomes).filter(outcome => outcome.state === 'created').length;
+  const failedCount = Object.values(outcomes).filter(
+    outcome => outcome.state !== 'created' && outcome.state !== 'submitting'
+  ).length;
+
   if (!isOpen) return null;
 
   return (
@@ -98,15 +202,19 @@ export default function AddNewsModal({
 
       {/* Modal */}
       <div
-        className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 border border-gray-200 relative z-10"
+        className={`bg-white rounded-lg shadow-xl w-full mx-4 border border-gray-200 relative z-10 ${
+          mode === 'bulk' ? 'max-w-3xl' : 'max-w-md'
+        }`}
         onClick={(e) => e.stopPropagation()}
       >
         <div className="p-6">
           <div className="flex justify-between items-center mb-4">
-            <h2 className="text-heading-sm font-semibold text-gray-800">Add News Article</h2>
+            <h2 className="text-heading-sm font-semibold text-gray-800">
+              {mode === 'bulk' ? 'Import News Articles' : 'Add News Article'}
+            </h2>
             <button
               onClick={handleClose}
-              disabled={loading}
+              disabled={busy}
               className="text-gray-400 hover:text-gray-600 disabled:cursor-not-allowed"
             >
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -115,77 +223,211 @@ export default function AddNewsModal({
             </button>
           </div>
 
-          <form onSubmit={handleSubmit}>
-            <div className="space-y-4">
-              {/* URL Field */}
-              <div>
-                <label htmlFor="url" className="block text-body-sm font-medium text-gray-700 mb-1">
-                  Article URL *
-                </label>
-                <input
-                  type="url"
-                  id="url"
-                  name="url"
-                  value={formData.url}
-                  onChange={handleChange}
-                  disabled={loading}
-                  className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed ${
-                    errors.url ? 'border-red-500' : 'border-gray-300'
+          {/* Mode Tabs */}
+          {onImport && (
+            <div className="flex gap-2 mb-4 border-b border-gray-200">
+              {(['single', 'bulk'] as const).map(tab => (
+                <button
+                  key={tab}
+                  type="button"
+                  onClick={() => setMode(tab)}
+                  disabled={busy}
+                  className={`px-3 py-2 text-body-sm font-medium border-b-2 -mb-px transition-colors disabled:cursor-not-allowed ${
+                    mode === tab
+                      ? 'border-blue-600 text-blue-700'
+                      : 'border-transparent text-gray-500 hover:text-gray-700'
                   }`}
-                  placeholder="https://example.com/news-article"
-                />
-                {errors.url && (
-                  <p className="mt-1 text-body-sm text-red-600">{errors.url}</p>
-                )}
+                >
+                  {tab === 'single' ? 'Single URL' : 'Bulk Import'}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {mode === 'bulk' ? (
+            <div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label htmlFor="bulk-category" className="block text-body-sm font-medium text-gray-700 mb-1">
+                    Default Category
+                  </label>
+                  <select
+                    id="bulk-category"
+                    value={bulkCategory}
+                    onChange={(e) => setBulkCategory(e.target.value)}
+                    disabled={importing}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                  >
+                    <option value="">Use category column only</option>
+                    {activeCategories.map((category) => (
+                      <option key={category.id} value={category.slug}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="bulk-file" className="block text-body-sm font-medium text-gray-700 mb-1">
+                    Upload CSV
+                  </label>
+                  <input
+                    type="file"
+                    id="bulk-file"
+                    accept=".csv,.txt,text/csv,text/plain"
+                    onChange={handleFileUpload}
+                    disabled={importing}
+                    className="w-full text-body-sm text-gray-700 file:mr-3 file:px-3 file:py-2 file:border-0 file:rounded-md file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+                  />
+                </div>
               </div>
 
-              {/* Category Field */}
-              <div>
-                <label htmlFor="category" className="block text-body-sm font-medium text-gray-700 mb-1">
-                  Category *
-                </label>
-                <select
-                  id="category"
-                  name="category"
-                  value={formData.category}
-                  onChange={handleChange}
-                  disabled={loading}
-                  className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed ${
-                    errors.category ? 'border-red-500' : 'border-gray-300'
-                  }`}
-                >
-                  <option value="">Select a category</option>
-                  {categories.map((category) => (
-                    <option key={category.value} value={category.value}>
-                      {category.label}
-                    </option>
-                  ))}
-                </select>
-                {errors.category && (
-                  <p className="mt-1 text-body-sm text-red-600">{errors.category}</p>
-                )}
+              <label htmlFor="bulk-text" className="block text-body-sm font-medium text-gray-700 mb-1">
+                URLs (one per line, optionally <code>url,category</code>)
+              </label>
+              <textarea
+                id="bulk-text"
+                value={bulkText}
+                onChange={(e) => handleBulkTextChange(e.target.value)}
+                disabled={importing}
+                rows={6}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-body-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed"
+                placeholder={'https://example.com/article-1\nhttps://example.com/article-2,finance'}
+              />
+              <p className="mt-1 text-caption text-gray-500">Up to {MAX_BULK_ROWS} rows per import.</p>
+
+              {/* Row Preview */}
+              {bulkRows.length > 0 && (
+                <div className="mt-4 max-h-64 overflow-y-auto border border-gray-200 rounded-md">
+                  <table className="w-full text-body-sm">
+                    <thead className="bg-gray-50 text-left text-gray-600 sticky top-0">
+                      <tr>
+                        <th className="px-3 py-2 font-medium">Line</th>
+                        <th className="px-3 py-2 font-medium">URL</th>
+                        <th className="px-3 py-2 font-medium">Category</th>
+                        <th className="px-3 py-2 font-medium">Result</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {bulkRows.map((row, index) => (
+                        <tr key={`${row.line}-${index}`} className="border-t border-gray-100">
+                          <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                          <td className="px-3 py-2 break-all">{row.url}</td>
+                          <td className="px-3 py-2">{row.category}</td>
+                          <td className="px-3 py-2">{renderOutcome(index, row.errors)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {/* Bulk Actions */}
+              <div className="flex justify-between items-center gap-3 mt-6 pt-4 border-t border-gray-200">
+                <span className="text-body-sm text-gray-600">
+                  {Object.keys(outcomes).length > 0
+                    ? `${createdCount} created, ${failedCount} failed`
+                    : `${validRowCount} of ${bulkRows.length} row${bulkRows.length !== 1 ? 's' : ''} valid`}
+                </span>
+                <div className="flex gap-3">
+                  <button
+                    type="button"
+                    onClick={handleClose}
+                    disabled={importing}
+                    className="px-4 py-2 text-body-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:bg-gray-100 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {createdCount > 0 && !importing ? 'Done' : 'Cancel'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleImport}
+                    disabled={importing || submittableRows.length === 0}
+                    className="px-4 py-2 text-body-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {importing
+                      ? 'Importing...'
+                      : failedCount > 0
+                      ? 'Retry Failed Rows'
+                      : `Import ${submittableRows.length} Article${submittableRows.length !== 1 ? 's' : ''}`}
+                  </button>
+                </div>
               </div>
             </div>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <div className="space-y-4">
+                {/* URL Field */}
+                <div>
+                  <label htmlFor="url" className="block text-body-sm font-medium text-gray-700 mb-1">
+                    Article URL *
+                  </label>
+                  <input
+                    type="url"
+                    id="url"
+                    name="url"
+                    value={formData.url}
+                    onChange={handleChange}
+                    disabled={loading}
+                    className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed ${
+                      errors.url ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                    placeholder="https://example.com/news-article"
+                  />
+                  {errors.url && (
+                    <p className="mt-1 text-body-sm text-red-600">{errors.url}</p>
+                  )}
+                </div>
 
-            {/* Form Actions */}
-            <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-gray-200">
-              <button
-                type="button"
-                onClick={handleClose}
-                disabled={loading}
-                className="px-4 py-2 text-body-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:bg-gray-100 disabled:cursor-not-allowed transition-colors"
-              >
-                Cancel
-              </button>
-              <button
-                type="submit"
-                disabled={loading}
-                className="px-4 py-2 text-body-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
-              >
-                {loading ? 'Creating...' : 'Add News'}
-              </button>
-            </div>
-          </form>
+                {/* Category Field */}
+                <div>
+                  <label htmlFor="category" className="block text-body-sm font-medium text-gray-700 mb-1">
+                    Category *
+                  </label>
+                  <select
+                    id="category"
+                    name="category"
+                    value={formData.category}
+                    onChange={handleChange}
+                    disabled={loading}
+                    className={`w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed ${
+                      errors.category ? 'border-red-500' : 'border-gray-300'
+                    }`}
+                  >
+                    <option value="">{categoriesLoading ? 'Loading categories...' : 'Select a category'}</option>
+                    {activeCategories.map((category) => (
+                      <option key={category.id} value={category.slug}>
+                        {category.name}
+                      </option>
+                    ))}
+                  </select>
+                  {errors.category && (
+                    <p className="mt-1 text-body-sm text-red-600">{errors.category}</p>
+                  )}
+                  {!errors.category && categoriesError && (
+                    <p className="mt-1 text-body-sm text-yellow-700">Categories could not be loaded. Please try again later.</p>
+                  )}
+                </div>
+              </div>
+
+              {/* Form Actions */}
+              <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={handleClose}
+                  disabled={loading}
+                  className="px-4 py-2 text-body-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:bg-gray-100 disabled:cursor-not-allowed transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="px-4 py-2 text-body-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  {loading ? 'Creating...' : 'Add News'}
+                </button>
+              </div>
+            </form>
+          )}
         </div>
       </div>
     </div>
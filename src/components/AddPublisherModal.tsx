@@ -1,11 +1,13 @@
 'use client';
 
 import { useState } from 'react';
+import { CreatePublisherInput } from '@/utils/api';
+import { PublisherInputErrors, validatePublisherInput } from '@/utils/publisherInput';
 
 interface AddPublisherModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSubmit: (publisherData: { name: string; domain: string; description?: string }) => Promise<void>;
+  onSubmit: (publisherData: CreatePublisherInput) => Promise<void>;
   loading?: boolean;
 }
 
@@ -21,23 +23,10 @@ export default function AddPublisherModal({
     description: ''
   });
 
-  const [errors, setErrors] = useState<{
-    name?: string;
-    domain?: string;
-  }>({});
+  const [errors, setErrors] = useState<PublisherInputErrors>({});
 
   const validateForm = () => {
-    const newErrors: { name?: string; domain?: string } = {};
-
-    if (!formData.name.trim()) {
-      newErrors.name = 'Name is required';
-    }
-
-    if (!formData.domain.trim()) {
-      newErrors.domain = 'Domain is required';
-    } else if (!/^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/.test(formData.domain)) {
-      newErrors.domain = 'Please enter a valid domain (e.g., example.com)';
-    }
+    const newErrors = validatePublisherInput(formData);
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -0,0 +1,66 @@
+'use client';
+
+export interface BarChartItem {
+  label: string;
+  value: number;
+  // Part of `value` drawn in the highlight color, e.g. failed articles
+  highlight?: number;
+}
+
+interface BarChartProps {
+  items: BarChartItem[];
+  valueLabel: string;
+  highlightLabel?: string;
+  height?: number;
+}
+
+export default function BarChart({ items, valueLabel, highlightLabel, height = 192 }: BarChartProps) {
+  const max = Math.max(1, ...items.map(item => item.value));
+  // Label every nth bar so long ranges stay readable
+  const labelEvery = Math.max(1, Math.ceil(items.length / 10));
+
+  return (
+    <div>
+      <div className="flex items-end gap-px border-b border-gray-200" style={{ height }}>
+        {items.map((item) => {
+          const highlight = Math.min(item.highlight || 0, item.value);
+          return (
+            <div
+              key={item.label}
+              className="flex-1 h-full flex flex-col justify-end group"
+              title={`${item.label}: ${item.value} ${valueLabel}${highlightLabel ? `, ${highlight} ${highlightLabel}` : ''}`}
+            >
+              <div
+                className="w-full flex flex-col justify-end rounded-t-sm bg-blue-500 group-hover:bg-blue-600 overflow-hidden transition-colors"
+                style={{ height: `${(item.value / max) * 100}%` }}
+              >
+                {highlight > 0 && (
+                  <div className="w-full bg-red-400" style={{ height: `${(highlight / item.value) * 100}%` }} />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex gap-px mt-1">
+        {items.map((item, index) => (
+          <div key={item.label} className="flex-1 min-w-0 text-caption text-gray-500 text-center whitespace-nowrap overflow-visible">
+            {index % labelEvery === 0 ? item.label : ''}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-4 mt-3 text-caption text-gray-600">
+        <span className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-sm bg-blue-500" />
+          {valueLabel}
+        </span>
+        {highlightLabel && (
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm bg-red-400" />
+            {highlightLabel}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
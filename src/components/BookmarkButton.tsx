@@ -0,0 +1,65 @@
+'use client';
+
+import { useReadingList } from '@/context/ReadingListContext';
+import { useToast } from '@/context/ToastContext';
+import { NewsItem } from '@/utils/api';
+
+interface BookmarkButtonProps {
+  article: NewsItem;
+  // "icon" for feed cards, "button" with a label for the detail page
+  variant?: 'icon' | 'button';
+  className?: string;
+}
+
+export default function BookmarkButton({ article, variant = 'icon', className = '' }: BookmarkButtonProps) {
+  const { isSaved, saveArticle, removeArticle } = useReadingList();
+  const { showSuccess } = useToast();
+  const saved = isSaved(article.id);
+
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Prevent card click navigation
+    if (saved) {
+      removeArticle(article.id);
+      showSuccess('Removed from your reading list.');
+    } else {
+      saveArticle(article);
+      showSuccess('Saved to your reading list.');
+    }
+  };
+
+  const icon = (
+    <svg className="w-4 h-4" fill={saved ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+    </svg>
+  );
+
+  if (variant === 'button') {
+    return (
+      <button
+        onClick={handleClick}
+        aria-pressed={saved}
+        className={`flex items-center gap-2 px-4 py-2 border rounded-md transition-colors text-body-sm ${
+          saved
+            ? 'bg-blue-50 border-blue-200 text-blue-700 hover:bg-blue-100'
+            : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+        } ${className}`}
+      >
+        {icon}
+        {saved ? 'Saved' : 'Save'}
+      </button>
+    );
+  }
+
+  return (
+    <button
+      onClick={handleClick}
+      aria-pressed={saved}
+      className={`p-1 rounded transition-colors ${
+        saved ? 'text-blue-600 hover:text-blue-800 hover:bg-blue-50' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+      } ${className}`}
+      title={saved ? 'Remove from reading list' : 'Save to reading list'}
+    >
+      {icon}
+    </button>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+export interface BreakdownItem {
+  key: string;
+  label: string;
+  value: number;
+  // Tailwind background class for the bar
+  color?: string;
+}
+
+interface BreakdownChartProps {
+  items: BreakdownItem[];
+  // Denominator for the percentages; defaults to the sum of the values
+  total?: number;
+  emptyMessage?: string;
+}
+
+export default function BreakdownChart({ items, total, emptyMessage = 'No data for this range' }: BreakdownChartProps) {
+  const sum = total ?? items.reduce((acc, item) => acc + item.value, 0);
+  const max = Math.max(1, ...items.map(item => item.value));
+
+  if (items.length === 0 || sum === 0) {
+    return <p className="text-body-sm text-gray-500 py-4">{emptyMessage}</p>;
+  }
+
+  return (
+    <ul className="space-y-3">
+      {items.map((item) => (
+        <li key={item.key}>
+          <div className="flex justify-between text-body-sm mb-1">
+            <span className="text-gray-700 truncate mr-2">{item.label}</span>
+            <span className="text-gray-500 whitespace-nowrap">
+              {item.value} <span className="text-caption">({Math.round((item.value / sum) * 100)}%)</span>
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${item.color || 'bg-blue-500'}`}
+              style={{ width: `${(item.value / max) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
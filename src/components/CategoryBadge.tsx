@@ -0,0 +1,28 @@
+'use client';
+
+import { useCategories } from '@/context/CategoryContext';
+
+interface CategoryBadgeProps {
+  slug?: string;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+export default function CategoryBadge({ slug, size = 'sm', className = '' }: CategoryBadgeProps) {
+  const { categories, categoryName } = useCategories();
+
+  if (!slug) return null;
+
+  const archived = categories.find(category => category.slug === slug)?.archived;
+
+  return (
+    <span
+      className={`inline-flex py-1 font-medium rounded-full bg-purple-100 text-purple-800 ${
+        size === 'md' ? 'px-3 text-body-sm' : 'px-2 text-caption'
+      } ${className}`}
+      title={archived ? 'Archived category' : undefined}
+    >
+      {categoryName(slug)}
+    </span>
+  );
+}
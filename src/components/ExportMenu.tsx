@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useToast } from '@/context/ToastContext';
+import { NewsItem, NewsListParams, Publisher } from '@/utils/api';
+import {
+  EXPORT_FORMATS,
+  ExportFormatOption,
+  MAX_EXPORT_ITEMS,
+  downloadFile,
+  exportFilename,
+  fetchAllNews,
+  fetchAllPublishers,
+  formatExport,
+  publisherResolver,
+  toExportRows
+} from '@/utils/newsExport';
+
+interface ExportMenuProps {
+  // Server-side filters; every matching page is exported, not just the loaded ones
+  params: Omit<NewsListParams, 'page' | 'size'>;
+  // Export exactly these articles instead, e.g. a selection; `params` then only names the file
+  items?: NewsItem[];
+  // Filters applied in the browser, such as tickers and sentiment
+  matches?: (item: NewsItem) => boolean;
+  disabled?: boolean;
+  // Open upwards when the button sits at the bottom of the screen
+  menuPlacement?: 'below' | 'above';
+}
+
+export default function ExportMenu({ params, items: selectedItems, matches, disabled = false, menuPlacement = 'below' }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [progress, setProgress] = useState<{ loaded: number; total: number } | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { showSuccess, showError, showWarning } = useToast();
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const exporting = progress !== null;
+
+  const handleExport = async (option: ExportFormatOption) => {
+    setIsOpen(false);
+    setProgress({ loaded: 0, total: 0 });
+    try {
+      const [{ items, truncated }, publishers] = await Promise.all([
+        selectedItems
+          ? { items: selectedItems, truncated: false }
+          : fetchAllNews(params, (loaded, total) => setProgress({ loaded, total })),
+        // Without the publisher list, links still name their site
+        fetchAllPublishers().catch((err): Publisher[] => {
+          console.error('Error fetching publishers for export:', err);
+          return [];
+        })
+      ]);
+      const exported = matches ? items.filter(matches) : items;
+
+      if (exported.length === 0) {
+        showWarning('No articles match the current filters.');
+        return;
+      }
+
+      const content = formatExport(toExportRows(exported, publisherResolver(publishers)), option.format);
+      downloadFile(exportFilename(params, option.extension), content, option.mimeType);
+
+      if (truncated) {
+        showWarning(`Exported the first ${MAX_EXPORT_ITEMS} articles; narrow the filters to export the rest.`);
+      } else {
+        showSuccess(`Exported ${exported.length} article${exported.length === 1 ? '' : 's'} as ${option.label}.`);
+      }
+    } catch (err) {
+      console.error('Error exporting news:', err);
+      showError('Export failed. Please try again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled || exporting}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+      >
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+        <span className="hidden sm:inline">
+          {exporting
+            ? progress.total > 0 ? `Exporting ${progress.loaded}/${progress.total}...` : 'Exporting...'
+            : 'Export'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div role="menu" className={`absolute right-0 ${menuPlacement === 'above' ? 'bottom-full mb-2' : 'mt-2'} w-48 bg-white border border-gray-200 rounded-md shadow-lg z-20 py-1`}>
+          <p className="px-4 py-2 text-caption text-gray-500">
+            {selectedItems ? 'The selected articles' : 'All articles matching the filters'}
+          </p>
+          {EXPORT_FORMATS.map(option => (
+            <button
+              key={option.format}
+              role="menuitem"
+              onClick={() => handleExport(option)}
+              className="w-full text-left px-4 py-2 text-body-sm text-gray-700 hover:bg-gray-100"
+            >
+              {option.label}
+              <span className="ml-1 text-caption text-gray-400">.{option.extension}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { RefObject } from 'react';
+
+interface HighlightToolbarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  matchCount: number;
+  currentMatch: number;
+  onNext: () => void;
+  onPrevious: () => void;
+  inputRef?: RefObject<HTMLInputElement | null>;
+}
+
+export default function HighlightToolbar({
+  query,
+  onQueryChange,
+  matchCount,
+  currentMatch,
+  onNext,
+  onPrevious,
+  inputRef
+}: HighlightToolbarProps) {
+  return (
+    <div className="mb-4 flex items-center gap-2 bg-white border border-gray-200 rounded-lg shadow-sm px-3 py-2">
+      <svg className="w-4 h-4 text-gray-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+      </svg>
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            if (e.shiftKey) {
+              onPrevious();
+            } else {
+              onNext();
+            }
+          }
+          if (e.key === 'Escape') {
+            e.currentTarget.blur();
+          }
+        }}
+        placeholder='Highlight in article, e.g. inflation "interest rate"'
+        className="flex-1 min-w-0 text-body-sm text-gray-800 focus:outline-none"
+      />
+      <span className="text-caption text-gray-500 whitespace-nowrap" aria-live="polite">
+        {query.trim() ? (matchCount > 0 ? `${currentMatch + 1} of ${matchCount}` : 'No matches') : ''}
+      </span>
+      <button
+        onClick={onPrevious}
+        disabled={matchCount === 0}
+        className="p-1 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+        title="Previous match (Shift+N)"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+        </svg>
+      </button>
+      <button
+        onClick={onNext}
+        disabled={matchCount === 0}
+        className="p-1 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+        title="Next match (N)"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { TrackedArticle } from '@/context/IngestionContext';
+
+interface IngestionIndicatorProps {
+  articles: TrackedArticle[];
+  realtimeConnected: boolean;
+  onDismissFinished: () => void;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+export default function IngestionIndicator({ articles, realtimeConnected, onDismissFinished }: IngestionIndicatorProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  const processingCount = articles.filter(article => article.status === 'processing').length;
+  const finishedCount = articles.length - processingCount;
+
+  // Refresh elapsed times while the panel is open
+  useEffect(() => {
+    if (!expanded) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [expanded]);
+
+  if (articles.length === 0) return null;
+
+  const getStatusStyles = (status: TrackedArticle['status']) => {
+    switch (status) {
+      case 'synced':
+        return { bar: 'bg-green-500 w-full', text: 'text-green-700', label: 'Synced' };
+      case 'failed':
+        return { bar: 'bg-red-500 w-full', text: 'text-red-700', label: 'Failed' };
+      case 'stalled':
+        return { bar: 'bg-yellow-500 w-full', text: 'text-yellow-700', label: 'Stopped checking' };
+      default:
+        return { bar: 'bg-blue-500 w-1/2 animate-pulse', text: 'text-blue-700', label: 'Processing' };
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 flex flex-col items-end">
+      {expanded && (
+        <div className="w-full mb-2 bg-white border border-gray-200 rounded-lg shadow-lg max-h-80 overflow-y-auto">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+            <span className="text-body-sm font-semibold text-gray-800">
+              Ingestion progress
+              <span
+                className={`ml-2 text-caption font-normal ${realtimeConnected ? 'text-green-600' : 'text-gray-500'}`}
+                title={realtimeConnected ? 'Receiving live updates' : 'Live updates unavailable, checking periodically'}
+              >
+                {realtimeConnected ? 'Live' : 'Polling'}
+              </span>
+            </span>
+            {finishedCount > 0 && (
+              <button
+                onClick={onDismissFinished}
+                className="text-caption text-blue-600 hover:text-blue-800"
+              >
+                Clear finished
+              </button>
+            )}
+          </div>
+          <ul className="divide-y divide-gray-100">
+            {articles.map(article => {
+              const styles = getStatusStyles(article.status);
+              return (
+                <li key={article.id} className="px-4 py-3">
+                  <Link
+                    href={`/news/${article.id}`}
+                    className="block text-body-sm text-gray-800 hover:text-blue-600 truncate"
+                    title={article.title || article.id}
+                  >
+                    {article.title || article.id}
+                  </Link>
+                  <div className="mt-2 h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full ${styles.bar}`} />
+                  </div>
+                  <div className="mt-1 flex justify-between text-caption text-gray-500">
+                    <span className={styles.text}>{styles.label}</span>
+                    {article.status === 'processing' && (
+                      <span>
+                        {formatElapsed(now - article.addedAt)} &middot; {article.checks} check{article.checks !== 1 ? 's' : ''}
+                      </span>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <button
+        onClick={() => {
+          setNow(Date.now());
+          setExpanded(!expanded);
+        }}
+        className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-full shadow-lg text-body-sm font-medium text-gray-700 hover:bg-gray-50"
+      >
+        {processingCount > 0 ? (
+          <>
+            <svg className="animate-spin h-4 w-4 text-blue-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+            {processingCount} article{processingCount !== 1 ? 's' : ''} processing
+          </>
+        ) : (
+          <>
+            <svg className="w-4 h-4 text-green-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+            {finishedCount} article{finishedCount !== 1 ? 's' : ''} finished
+          </>
+        )}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+export interface LinePoint {
+  label: string;
+  // null leaves a gap in the line, e.g. a day without articles
+  value: number | null;
+}
+
+interface LineChartProps {
+  points: LinePoint[];
+  formatValue: (value: number) => string;
+  // Upper end of the y axis; defaults to the largest value
+  max?: number;
+  height?: number;
+}
+
+const WIDTH = 600;
+const PADDING = 8;
+
+export default function LineChart({ points, formatValue, max, height = 160 }: LineChartProps) {
+  const values = points.map(point => point.value).filter((value): value is number => value !== null);
+  const top = max ?? Math.max(0, ...values);
+  const labelEvery = Math.max(1, Math.ceil(points.length / 10));
+
+  if (values.length === 0) {
+    return <p className="text-body-sm text-gray-500 py-4">No data for this range</p>;
+  }
+
+  const x = (index: number) =>
+    points.length === 1 ? WIDTH / 2 : PADDING + (index / (points.length - 1)) * (WIDTH - PADDING * 2);
+  const y = (value: number) =>
+    height - PADDING - (top > 0 ? value / top : 0) * (height - PADDING * 2);
+
+  // Start a new segment after every gap
+  const path = points
+    .map((point, index) => {
+      if (point.value === null) return '';
+      const command = index > 0 && points[index - 1].value !== null ? 'L' : 'M';
+      return `${command}${x(index).toFixed(1)},${y(point.value).toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <div>
+      <div className="flex gap-2">
+        <div className="flex flex-col justify-between text-caption text-gray-500 text-right" style={{ height }}>
+          <span>{formatValue(top)}</span>
+          <span>{formatValue(0)}</span>
+        </div>
+        <div className="relative flex-1" style={{ height }}>
+          <svg
+            viewBox={`0 0 ${WIDTH} ${height}`}
+            preserveAspectRatio="none"
+            className="absolute inset-0 w-full h-full border-b border-l border-gray-200"
+            aria-hidden="true"
+          >
+            <line x1={0} x2={WIDTH} y1={y(top / 2)} y2={y(top / 2)} className="stroke-gray-100" strokeDasharray="4 4" />
+            <path d={path} fill="none" className="stroke-red-500" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+          </svg>
+          {/* Points are HTML so they stay round when the SVG stretches */}
+          {points.map((point, index) =>
+            point.value === null ? null : (
+              <span
+                key={point.label}
+                className="absolute w-2 h-2 -ml-1 -mt-1 rounded-full bg-red-500"
+                style={{ left: `${(x(index) / WIDTH) * 100}%`, top: `${(y(point.value) / height) * 100}%` }}
+                title={`${point.label}: ${formatValue(point.value)}`}
+              />
+            )
+          )}
+        </div>
+      </div>
+      <div className="flex justify-between mt-1 ml-10 text-caption text-gray-500">
+        {points
+          .filter((_, index) => index % labelEvery === 0)
+          .map(point => (
+            <span key={point.label}>{point.label}</span>
+          ))}
+      </div>
+    </div>
+  );
+}
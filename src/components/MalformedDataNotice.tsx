@@ -0,0 +1,48 @@
+'use client';
+
+import { useState } from 'react';
+import { InvalidItem } from '@/utils/schema';
+
+interface MalformedDataNoticeProps {
+  items: InvalidItem[];
+  itemLabel: string;
+}
+
+export default function MalformedDataNotice({ items, itemLabel }: MalformedDataNoticeProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start">
+          <svg className="w-5 h-5 mr-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.854-.833-2.598 0L5.268 15.5c-.77.833.192 2.5 1.732 2.5z" />
+          </svg>
+          <span className="text-body-sm font-medium">
+            {items.length} {itemLabel}{items.length !== 1 ? 's' : ''} could not be displayed because the server returned malformed data.
+          </span>
+        </div>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-body-sm font-medium underline hover:text-yellow-900 flex-shrink-0"
+        >
+          {expanded ? 'Hide details' : 'Show details'}
+        </button>
+      </div>
+
+      {expanded && (
+        <ul className="mt-3 ml-8 space-y-1 text-caption font-mono">
+          {items.map((item, index) => (
+            <li key={`${item.id || 'item'}-${index}`}>
+              <span className="font-semibold">{item.id ? `id ${item.id}` : `item #${item.index + 1}`}</span>
+              {': '}
+              {item.issues.map(issue => `${issue.path} ${issue.message}`).join(', ')}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import BookmarkButton from '@/components/BookmarkButton';
+import CategoryBadge from '@/components/CategoryBadge';
+import SentimentBadge from '@/components/SentimentBadge';
+import TickerChips from '@/components/TickerChips';
+import { NewsItem } from '@/utils/api';
+
+interface NewsCardProps {
+  item: NewsItem;
+  onDelete?: (item: NewsItem) => void;
+  onRetry?: (item: NewsItem) => void;
+  retrying?: boolean;
+  // In selection mode a click selects the card instead of opening the article
+  selectable?: boolean;
+  selected?: boolean;
+  onSelect?: (item: NewsItem, e: React.MouseEvent) => void;
+}
+
+const formatDate = (dateString?: string) => {
+  if (!dateString) return '';
+  try {
+    const date = new Date(dateString);
+    return date.toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  } catch {
+    return dateString;
+  }
+};
+
+export default function NewsCard({ item, onDelete, onRetry, retrying = false, selectable = false, selected = false, onSelect }: NewsCardProps) {
+  const router = useRouter();
+
+  return (
+    <div
+      onClick={(e) => selectable && onSelect ? onSelect(item, e) : router.push(`/news/${item.id}`)}
+      className={`relative bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow cursor-pointer ${
+        selectable ? 'select-none' : ''
+      } ${selected ? 'ring-2 ring-blue-500' : ''}`}
+    >
+      {/* Outside the thumbnail, whose markup is replaced when the image fails to load */}
+      {selectable && (
+        <span
+          className={`absolute top-3 left-3 z-10 w-6 h-6 flex items-center justify-center rounded border-2 shadow ${
+            selected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300'
+          }`}
+          aria-hidden="true"
+        >
+          {selected && (
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+            </svg>
+          )}
+        </span>
+      )}
+      <div className="relative h-48 overflow-hidden">
+        {item.thumbnail ? (
+          <img
+            src={item.thumbnail}
+            alt={item.title}
+            className="w-full h-full object-cover"
+            onError={(e) => {
+              // Show fallback when image fails to load (CSP blocked or broken URL)
+              e.currentTarget.style.display = 'none';
+              const parent = e.currentTarget.parentElement;
+              if (parent) {
+                parent.innerHTML = '<div class="w-full h-full bg-gray-200 flex items-center justify-center"><span class="text-gray-500 text-body-sm">Image blocked</span></div>';
+              }
+            }}
+          />
+        ) : (
+          <div className="w-full h-full bg-gray-200 flex items-center justify-center">
+            <span className="text-gray-500 text-body-sm">No image</span>
+          </div>
+        )}
+      </div>
+      <div className="p-4">
+        <div className="flex justify-between items-start mb-2">
+          <h2 className="text-heading-sm font-semibold text-gray-800 hover:text-blue-600 transition-colors flex-1">{item.title}</h2>
+          <BookmarkButton article={item} className="ml-2" />
+          {onDelete && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation(); // Prevent card click navigation
+                onDelete(item);
+              }}
+              className="ml-2 p-1 text-red-500 hover:text-red-700 hover:bg-red-50 rounded transition-colors"
+              title="Delete news item"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
+          )}
+        </div>
+
+        {/* Published Date */}
+        {item.published_at && (
+          <div className="flex items-center text-gray-500 text-body-sm mb-2">
+            <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span>{formatDate(item.published_at)}</span>
+          </div>
+        )}
+
+        {/* Content Preview */}
+        {item.content && (
+          <p className="text-body-sm text-gray-600 mb-3 line-clamp-3">
+            {item.content}
+          </p>
+        )}
+
+        {/* Mentioned Tickers */}
+        <TickerChips article={item} max={4} className="mb-3" />
+
+        <div className="flex justify-between items-center">
+          <div className="flex items-center">
+            <span className={`inline-block px-2 py-1 rounded text-body-sm font-medium ${
+              item.status === 'synced'
+                ? 'bg-green-100 text-green-800'
+                : item.status === 'failed'
+                ? 'bg-red-100 text-red-800'
+                : item.status === 'added'
+                ? 'bg-blue-100 text-blue-800'
+                : 'bg-gray-100 text-gray-800'
+            }`}>
+              {item.status}
+            </span>
+
+            <CategoryBadge slug={item.category} className="ml-2" />
+            <SentimentBadge article={item} className="ml-2" />
+
+            {item.status === 'failed' && onRetry && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation(); // Prevent card click navigation
+                  onRetry(item);
+                }}
+                disabled={retrying}
+                className="ml-2 px-2 py-1 text-body-sm font-medium text-red-700 border border-red-200 rounded hover:bg-red-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+                title="Retry sync"
+              >
+                {retrying ? 'Retrying...' : 'Retry sync'}
+              </button>
+            )}
+          </div>
+
+          {/* Author */}
+          {item.author && (
+            <div className="flex items-center text-gray-500 text-body-sm">
+              <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+              </svg>
+              <span>{item.author}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { useOffline } from '@/context/OfflineContext';
+
+export default function OfflineBanner() {
+  const { isOffline, showingCachedData, pendingActions, replayPending } = useOffline();
+
+  if (!isOffline && !showingCachedData && pendingActions.length === 0) return null;
+
+  // Only claim cached data when the service worker actually served some
+  const statusLabel = showingCachedData
+    ? 'Offline – showing cached data'
+    : isOffline ? 'You are offline' : 'The server is unreachable';
+  const pendingLabel = pendingActions.length === 1 ? '1 change waiting to sync' : `${pendingActions.length} changes waiting to sync`;
+
+  return (
+    <div role="status" className="sticky top-0 z-30 px-6 py-2 bg-yellow-50 border-b border-yellow-200 flex items-center justify-between gap-4">
+      <span className="text-body-sm text-yellow-800">
+        {statusLabel}
+        {pendingActions.length > 0 && ` · ${pendingLabel}`}
+      </span>
+      {pendingActions.length > 0 && !isOffline && (
+        <button
+          onClick={() => replayPending()}
+          className="text-body-sm font-medium text-yellow-800 hover:text-yellow-900 underline"
+        >
+          Retry now
+        </button>
+      )}
+    </div>
+  );
+}
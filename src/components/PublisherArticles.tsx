@@ -0,0 +1,186 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import NewsCard from '@/components/NewsCard';
+import MalformedDataNotice from '@/components/MalformedDataNotice';
+import { NewsItem, Pagination, listNews } from '@/utils/api';
+import { InvalidItem } from '@/utils/schema';
+import { FEED_STATUSES } from '@/utils/feedFilters';
+
+interface PublisherArticlesProps {
+  publisherId: string;
+}
+
+interface PublisherStats {
+  total: number;
+  byStatus: Record<string, number>;
+  latestAt?: string;
+}
+
+const PAGE_SIZE = 12;
+
+const statusStyles: Record<string, string> = {
+  synced: 'text-green-700',
+  failed: 'text-red-700',
+  added: 'text-blue-700'
+};
+
+const formatDate = (dateString?: string) => {
+  if (!dateString) return '—';
+  try {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  } catch {
+    return dateString;
+  }
+};
+
+// Counts come from the pagination totals of one-item pages, so no stats endpoint is needed
+async function fetchStats(publisherId: string): Promise<PublisherStats> {
+  const [all, ...byStatus] = await Promise.all([
+    listNews({ publisherId, page: 1, size: 1 }),
+    ...FEED_STATUSES.map(status => listNews({ publisherId, status, page: 1, size: 1 }))
+  ]);
+
+  return {
+    total: all.pagination?.total ?? all.data.length,
+    byStatus: Object.fromEntries(FEED_STATUSES.map((status, index) => [
+      status,
+      byStatus[index].pagination?.total ?? byStatus[index].data.length
+    ])),
+    latestAt: all.data[0]?.published_at // The list is newest first
+  };
+}
+
+export default function PublisherArticles({ publisherId }: PublisherArticlesProps) {
+  const [articles, setArticles] = useState<NewsItem[]>([]);
+  const [invalidArticles, setInvalidArticles] = useState<InvalidItem[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [stats, setStats] = useState<PublisherStats | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchArticles = async () => {
+      setLoading(true);
+      setLoadFailed(false);
+      try {
+        const data = await listNews({ publisherId, page, size: PAGE_SIZE });
+        if (cancelled) return;
+        setArticles(data.data);
+        setInvalidArticles(data.invalid);
+        setPagination(data.pagination || null);
+      } catch (err) {
+        console.error('Error fetching publisher articles:', err);
+        if (!cancelled) setLoadFailed(true);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchArticles();
+    return () => {
+      cancelled = true;
+    };
+  }, [publisherId, page, reloadKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchStats(publisherId)
+      .then(result => {
+        if (!cancelled) setStats(result);
+      })
+      .catch(err => console.error('Error fetching publisher stats:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [publisherId, reloadKey]);
+
+  const totalPages = pagination?.total_pages || 1;
+
+  return (
+    <section className="mt-8">
+      <h2 className="text-heading font-semibold text-gray-800 mb-4">Articles</h2>
+
+      {/* Source Health */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <p className="text-caption font-medium text-gray-500 uppercase tracking-wide">Total</p>
+          <p className="mt-1 text-heading-sm font-semibold text-gray-900">{stats ? stats.total : '—'}</p>
+        </div>
+        {FEED_STATUSES.map(status => (
+          <div key={status} className="bg-white rounded-lg shadow-md p-4">
+            <p className="text-caption font-medium text-gray-500 uppercase tracking-wide">{status}</p>
+            <p className={`mt-1 text-heading-sm font-semibold ${statusStyles[status]}`}>
+              {stats ? stats.byStatus[status] : '—'}
+            </p>
+          </div>
+        ))}
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <p className="text-caption font-medium text-gray-500 uppercase tracking-wide">Latest article</p>
+          <p className="mt-1 text-heading-sm font-semibold text-gray-900">{stats ? formatDate(stats.latestAt) : '—'}</p>
+        </div>
+      </div>
+
+      <MalformedDataNotice items={invalidArticles} itemLabel="article" />
+
+      {loading ? (
+        <div className="text-center text-gray-600 py-8">Loading articles...</div>
+      ) : loadFailed ? (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between">
+          <span className="text-body-sm text-yellow-800">Articles could not be loaded.</span>
+          <button
+            onClick={() => setReloadKey(key => key + 1)}
+            className="text-body-sm font-medium text-yellow-800 hover:text-yellow-900 underline"
+          >
+            Try again
+          </button>
+        </div>
+      ) : articles.length === 0 ? (
+        <div className="text-center text-gray-600 py-8">
+          No articles from this publisher yet
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {articles.map((item, index) => (
+              <NewsCard key={item.id || `news-${index}`} item={item} />
+            ))}
+          </div>
+
+          {/* Pagination Controls */}
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-6 text-body-sm text-gray-600">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="px-4 py-2 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+              >
+                Previous
+              </button>
+              <span>
+                Page {page} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+                className="px-4 py-2 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
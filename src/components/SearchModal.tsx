@@ -2,50 +2,96 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-
-interface NewsItem {
-  id: string;
-  title: string;
-  thumbnail?: string;
-  status: string;
-  published_at?: string;
-  author?: string;
-  content?: string;
-}
-
-interface SearchResponse {
-  data: NewsItem[];
-  pagination?: {
-    page: number;
-    size: number;
-    total: number;
-    total_pages: number;
-  };
-}
+import SearchQueryInput from '@/components/SearchQueryInput';
+import DateRangePicker from '@/components/DateRangePicker';
+import { useCategories } from '@/context/CategoryContext';
+import { useAlerts } from '@/context/AlertContext';
+import { useTickers } from '@/context/TickerContext';
+import { PageActionId, StoredSearch, useSearch } from '@/context/SearchContext';
+import { NewsItem, Pagination, getSearchSuggestions, searchNews } from '@/utils/api';
+import { sanitizeHtml } from '@/utils/sanitizeHtml';
+import { FEED_STATUSES, FeedFilters, buildFeedQuery, hasActiveFilters } from '@/utils/feedFilters';
+import {
+  EMPTY_SEARCH_FILTERS,
+  SEARCH_OPERATORS,
+  SearchFilters,
+  buildHighlightParams,
+  describeSearchFilters,
+  hasSearchCriteria,
+  parseSearchQuery,
+  tokenizeSearchQuery,
+  withSearchFilters,
+  withTickerFallback
+} from '@/utils/searchQuery';
 
 interface SearchModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Filters active on the News Feed, offered as the starting point for the search
+  feedFilters?: FeedFilters;
+  // Search to run as soon as the modal opens (recent or saved search)
+  initialSearch?: StoredSearch;
 }
 
-export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
+interface PaletteCommand {
+  id: string;
+  label: string;
+  keywords: string;
+  run: () => void;
+}
+
+// Every word typed must appear in the command's label or keywords
+const matchesCommand = (command: PaletteCommand, query: string) => {
+  const haystack = `${command.label} ${command.keywords}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+};
+
+// Pages read in one go while a ticker filter leaves nothing to show
+const MAX_TICKER_PAGES = 5;
+
+const pickSearchFilters = ({ from, to, status, category, ticker }: SearchFilters): SearchFilters => ({ from, to, status, category, ticker });
+
+export default function SearchModal({ isOpen, onClose, feedFilters, initialSearch }: SearchModalProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [results, setResults] = useState<NewsItem[]>([]);
+  const [malformedCount, setMalformedCount] = useState(0);
   const [loading, setLoading] = useState(false);
   const [loadingSuggestions, setLoadingSuggestions] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize] = useState(30);
   const [hasMore, setHasMore] = useState(true);
-  const [pagination, setPagination] = useState<SearchResponse['pagination'] | null>(null);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [showHelp, setShowHelp] = useState(false);
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [inheritFeedFilters, setInheritFeedFilters] = useState(true);
+  const [lastQuery, setLastQuery] = useState('');
+  const [saveName, setSaveName] = useState<string | null>(null);
+  // Keyboard selection across actions, suggestions, history and results; -1 is the input itself
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const { activeCategories, categoryName } = useCategories();
+  const {
+    recentSearches,
+    savedSearches,
+    addRecentSearch,
+    clearRecentSearches,
+    saveSearch,
+    removeSavedSearch,
+    togglePinned,
+    triggerPageAction
+  } = useSearch();
+  const { watches, addWatch, requestNotificationPermission } = useAlerts();
+  const { dictionary, tickersFor, tickerName } = useTickers();
+  const canInheritFeedFilters = Boolean(feedFilters && hasActiveFilters(feedFilters));
   const searchInputRef = useRef<HTMLInputElement>(null);
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Bumped by every new search, so pages arriving for an earlier query are dropped
+  const resultsSeqRef = useRef(0);
   const resultsContainerRef = useRef<HTMLDivElement>(null);
+  const modalRef = useRef<HTMLDivElement>(null);
   const router = useRouter();
 
-  const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:40000/api/v1';
-
   // Focus search input when modal opens
   useEffect(() => {
     if (isOpen && searchInputRef.current) {
@@ -71,12 +117,19 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
       setSearchQuery('');
       setSuggestions([]);
       setResults([]);
+      setMalformedCount(0);
       setLoading(false);
       setLoadingSuggestions(false);
       setLoadingMore(false);
       setCurrentPage(1);
       setHasMore(true);
       setPagination(null);
+      setShowHelp(false);
+      setSearchFilters(EMPTY_SEARCH_FILTERS);
+      setSaveName(null);
+      setLastQuery('');
+      setActiveIndex(-1);
+      resultsSeqRef.current++;
       // Clear any pending debounce timer
       if (debounceTimerRef.current) {
         clearTimeout(debounceTimerRef.current);
@@ -85,33 +138,17 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
   }, [isOpen]);
 
   // Fetch suggestions from API
-  const fetchSuggestions = async (keywords: string) => {
-    if (!keywords.trim()) {
+  const fetchSuggestions = async (query: string) => {
+    // Suggestions only make sense for plain words, not phrases or qualifiers
+    const keywordList = parseSearchQuery(query).keywords;
+    if (keywordList.length === 0) {
       setSuggestions([]);
       return;
     }
 
     setLoadingSuggestions(true);
     try {
-      const params = new URLSearchParams();
-      // Split keywords by space and add each as a separate parameter
-      const keywordList = keywords.trim().split(/\s+/);
-      keywordList.forEach(keyword => {
-        if (keyword) {
-          params.append('keywords', keyword);
-        }
-      });
-
-      const response = await fetch(`${API_BASE_URL}/news/search/suggestions?${params.toString()}`);
-
-      if (response.ok) {
-        const data = await response.json();
-        // Assuming API returns { data: string[] }
-        setSuggestions(data.data || []);
-      } else {
-        console.error('Failed to fetch suggestions:', response.statusText);
-        setSuggestions([]);
-      }
+      setSuggestions(await getSearchSuggestions(keywordList));
     } catch (error) {
       console.error('Error fetching suggestions:', error);
       setSuggestions([]);
@@ -121,73 +158,85 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
   };
 
   // Fetch search results from API
-  const fetchResults = async (keywords: string, page: number = 1, append: boolean = false) => {
-    if (!keywords.trim()) {
+  const fetchResults = async (query: string, page: number = 1, append: boolean = false, filters: SearchFilters = searchFilters) => {
+    const parsed = withSearchFilters(parseSearchQuery(query), filters);
+    if (parsed.errors.length > 0) {
+      return; // Shown under the input while typing
+    }
+
+    if (!hasSearchCriteria(parsed)) {
       setResults([]);
       setPagination(null);
       setHasMore(true);
       return;
     }
 
+    const seq = append ? resultsSeqRef.current : ++resultsSeqRef.current;
     if (append) {
       setLoadingMore(true);
     } else {
+      setLastQuery(query);
+      setActiveIndex(-1);
       setLoading(true);
       setResults([]);
+      setMalformedCount(0);
       setPagination(null);
       setHasMore(true);
     }
 
     try {
-      const params = new URLSearchParams();
-      // Split keywords by space and add each as a separate parameter
-      const keywordList = keywords.trim().split(/\s+/);
-      keywordList.forEach(keyword => {
-        if (keyword) {
-          params.append('keywords', keyword);
-        }
-      });
-
-      // Add pagination parameters
-      params.append('page', String(page));
-      params.append('size', String(pageSize));
+      const { ticker } = parsed;
+      const params = withTickerFallback(parsed, tickerName);
+      let lastPage = page;
+      let data = await searchNews({ ...params, page: lastPage, size: pageSize });
+      if (seq !== resultsSeqRef.current) return;
+      let newResults = ticker ? data.data.filter(item => tickersFor(item).includes(ticker)) : data.data;
+      let invalidCount = data.invalid.length;
 
-      const response = await fetch(`${API_BASE_URL}/news/search?${params.toString()}`);
-
-      if (response.ok) {
-        const data: SearchResponse = await response.json();
-        const newResults = data.data || [];
-
-        // Check if there are more results - if empty, no more results
-        if (newResults.length === 0) {
-          setHasMore(false);
-        } else {
-          setHasMore(true);
-        }
+      // Tickers are matched in the browser, so a page can come back with nothing to show and leave
+      // nothing to scroll; read on a few pages, after which the "Load more" button takes over
+      while (
+        ticker &&
+        newResults.length === 0 &&
+        data.data.length > 0 &&
+        (!data.pagination || lastPage < data.pagination.total_pages) &&
+        lastPage - page + 1 < MAX_TICKER_PAGES
+      ) {
+        lastPage++;
+        data = await searchNews({ ...params, page: lastPage, size: pageSize });
+        if (seq !== resultsSeqRef.current) return;
+        newResults = data.data.filter(item => tickersFor(item).includes(ticker));
+        invalidCount += data.invalid.length;
+      }
 
-        if (append) {
-          // Append to existing results, filtering out duplicates
-          setResults(prev => {
-            const existingIds = new Set(prev.map(item => item.id).filter(Boolean));
-            const uniqueNewResults = newResults.filter(item => item.id && !existingIds.has(item.id));
-            return [...prev, ...uniqueNewResults];
-          });
-        } else {
-          // Replace results
-          setResults(newResults);
-        }
+      // Check if there are more results - if empty or on the last page, no more results
+      if (data.data.length === 0 || (data.pagination && lastPage >= data.pagination.total_pages)) {
+        setHasMore(false);
+      } else {
+        setHasMore(true);
+      }
 
-        setPagination(data.pagination || null);
-        setCurrentPage(page);
+      if (append) {
+        // Append to existing results, filtering out duplicates
+        setResults(prev => {
+          const existingIds = new Set(prev.map(item => item.id).filter(Boolean));
+          const uniqueNewResults = newResults.filter(item => item.id && !existingIds.has(item.id));
+          return [...prev, ...uniqueNewResults];
+        });
+        setMalformedCount(prev => prev + invalidCount);
       } else {
-        console.error('Failed to fetch results:', response.statusText);
-        if (!append) {
-          setResults([]);
-          setPagination(null);
-          setHasMore(false);
-        }
+        // Replace results
+        setResults(newResults);
+        setMalformedCount(invalidCount);
+      }
+
+      setPagination(data.pagination || null);
+      setCurrentPage(lastPage);
+      if (!append) {
+        addRecentSearch({ query, filters });
       }
     } catch (error) {
+      if (seq !== resultsSeqRef.current) return;
       console.error('Error fetching results:', error);
       if (!append) {
         setResults([]);
@@ -195,13 +244,16 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
         setHasMore(false);
       }
     } finally {
-      setLoading(false);
-      setLoadingMore(false);
+      if (seq === resultsSeqRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
     }
   };
 
   const handleSearch = (query: string) => {
     setSearchQuery(query);
+    setActiveIndex(-1);
 
     // Clear existing debounce timer
     if (debounceTimerRef.current) {
@@ -220,13 +272,6 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
     }, 100);
   };
 
-  // Handle Enter key to perform search
-  const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' && searchQuery.trim()) {
-      setCurrentPage(1);
-      fetchResults(searchQuery, 1, false);
-    }
-  };
 
   // Handle scroll to load more results
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
@@ -241,11 +286,182 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
       hasMore &&
       results.length > 0
     ) {
-      const nextPage = currentPage + 1;
-      fetchResults(searchQuery, nextPage, true);
+      loadMore();
+    }
+  };
+
+  // The query the results are for, not whatever has been typed since
+  const loadMore = () => {
+    fetchResults(lastQuery, currentPage + 1, true);
+  };
+
+  // Results narrowed by a ticker may not fill the list enough to scroll, so they get a button too
+  const lastQueryTicker = withSearchFilters(parseSearchQuery(lastQuery), searchFilters).ticker;
+  const showLoadMore = Boolean(lastQueryTicker) && hasMore && !loading && !loadingMore;
+
+  // Re-run a recent or saved search
+  const runSearch = (search: StoredSearch) => {
+    setSearchQuery(search.query);
+    setSearchFilters(search.filters);
+    setSuggestions([]);
+    setSaveName(null);
+    fetchResults(search.query, 1, false, search.filters);
+  };
+
+  const handleSaveSearch = () => {
+    const name = saveName?.trim();
+    if (!name || !lastQuery) return;
+
+    saveSearch(name, { query: lastQuery, filters: searchFilters });
+    setSaveName(null);
+  };
+
+  const isCurrentSearchSaved = savedSearches.some(saved =>
+    saved.query === lastQuery.trim() &&
+    JSON.stringify(saved.filters) === JSON.stringify(searchFilters)
+  );
+
+  const isCurrentSearchWatched = watches.some(watch =>
+    watch.query === lastQuery.trim() &&
+    JSON.stringify(watch.filters) === JSON.stringify(searchFilters)
+  );
+
+  // Alert on new articles matching the current search
+  const handleWatchSearch = () => {
+    if (!lastQuery.trim()) return;
+
+    addWatch(lastQuery, { query: lastQuery, filters: searchFilters });
+    requestNotificationPermission(); // Asked on this click so the browser shows the prompt
+  };
+
+  // Run the requested search, or start from the feed's filters when opened over a filtered News Feed
+  useEffect(() => {
+    if (!isOpen) return;
+
+    if (initialSearch) {
+      runSearch(initialSearch);
+    } else if (feedFilters && inheritFeedFilters && hasActiveFilters(feedFilters)) {
+      setSearchFilters(pickSearchFilters(feedFilters));
+    }
+    // Only when opening; later edits to the controls belong to the search
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  // Re-run the current search when a filter control changes
+  const updateSearchFilters = (next: SearchFilters) => {
+    setSearchFilters(next);
+    if (lastQuery) {
+      fetchResults(lastQuery, 1, false, next);
+    }
+  };
+
+  const handleInheritChange = (inherit: boolean) => {
+    setInheritFeedFilters(inherit);
+    updateSearchFilters(inherit && feedFilters ? pickSearchFilters(feedFilters) : EMPTY_SEARCH_FILTERS);
+  };
+
+  const applySuggestion = (suggestion: string) => {
+    setSearchQuery(suggestion);
+    fetchResults(suggestion, 1, false);
+  };
+
+  // Highlight the query the results came from, not whatever has been typed since
+  const openResult = (result: NewsItem) => {
+    router.push(`/news/${result.id}?${buildHighlightParams(lastQuery).toString()}`);
+    onClose();
+  };
+
+  // Page actions run in place when their page is open, otherwise after navigating there
+  const runPageAction = (id: PageActionId, href: string) => {
+    if (!triggerPageAction(id)) {
+      router.push(href);
     }
   };
 
+  const commands: PaletteCommand[] = [
+    { id: 'add-news', label: 'Add news', keywords: 'create article import url', run: () => runPageAction('add-news', '/') },
+    { id: 'add-publisher', label: 'Add publisher', keywords: 'create source domain', run: () => runPageAction('add-publisher', '/publishers') },
+    { id: 'go-news', label: 'Go to News Feed', keywords: 'navigate open home articles', run: () => router.push('/') },
+    { id: 'go-dashboard', label: 'Go to Dashboard', keywords: 'navigate open analytics charts stats', run: () => router.push('/dashboard') },
+    { id: 'go-publishers', label: 'Go to Publishers', keywords: 'navigate open sources', run: () => router.push('/publishers') },
+    { id: 'go-categories', label: 'Go to Categories', keywords: 'navigate open', run: () => router.push('/categories') },
+  ];
+  if (feedFilters && hasActiveFilters(feedFilters)) {
+    commands.push({
+      id: 'clear-feed-filters',
+      label: 'Clear feed filters',
+      keywords: 'reset date status category',
+      run: () => {
+        const query = buildFeedQuery({ ...feedFilters, from: '', to: '', status: '', category: '', ticker: '', sentiment: '', page: 1 });
+        router.push(query ? `/?${query}` : '/', { scroll: false });
+      }
+    });
+  }
+
+  const runCommand = (command: PaletteCommand) => {
+    command.run();
+    onClose();
+  };
+
+  const isQueryEmpty = searchQuery.trim() === '';
+  const visibleCommands = isQueryEmpty ? commands : commands.filter(command => matchesCommand(command, searchQuery));
+  const visibleSuggestions = loadingSuggestions ? [] : suggestions;
+  const historySearches = isQueryEmpty ? [...savedSearches, ...recentSearches] : [];
+  const visibleResults = isQueryEmpty || loading ? [] : results;
+
+  // Keyboard order follows the order on screen
+  const navItems: (() => void)[] = [
+    ...visibleCommands.map(command => () => runCommand(command)),
+    ...visibleSuggestions.map(suggestion => () => applySuggestion(suggestion)),
+    ...historySearches.map(search => () => runSearch(search)),
+    ...visibleResults.map(result => () => openResult(result))
+  ];
+  const suggestionOffset = visibleCommands.length;
+  const savedOffset = suggestionOffset + visibleSuggestions.length;
+  const recentOffset = savedOffset + savedSearches.length;
+  const resultOffset = savedOffset + historySearches.length;
+
+  const navProps = (index: number) => ({
+    'data-nav-index': index,
+    'aria-selected': activeIndex === index,
+    onMouseEnter: () => setActiveIndex(index)
+  });
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (navItems.length === 0) return;
+
+      // Step through the items and back to the input, wrapping at either end
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      const positions = navItems.length + 1;
+      setActiveIndex(prev => ((prev + 1 + step + positions) % positions) - 1);
+      return;
+    }
+
+    if (e.key === 'Enter') {
+      if (activeIndex >= 0 && activeIndex < navItems.length) {
+        e.preventDefault();
+        navItems[activeIndex]();
+      } else if (searchQuery.trim()) {
+        setCurrentPage(1);
+        fetchResults(searchQuery, 1, false);
+      }
+    }
+  };
+
+  // Keep the keyboard selection visible
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    modalRef.current
+      ?.querySelector(`[data-nav-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const queryErrors = tokenizeSearchQuery(searchQuery)
+    .map(token => token.error)
+    .filter((error): error is string => Boolean(error));
+
   const formatDate = (dateString?: string) => {
     if (!dateString) return '';
     try {
@@ -281,6 +497,7 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
 
       {/* Modal */}
       <div
+        ref={modalRef}
         className="bg-white rounded-lg shadow-2xl max-w-3xl w-full mx-4 relative z-10 flex flex-col max-h-[80vh]"
         onClick={(e) => e.stopPropagation()}
       >
@@ -303,22 +520,165 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
             </svg>
 
             {/* Search Input */}
-            <input
-              ref={searchInputRef}
-              type="text"
+            <SearchQueryInput
+              inputRef={searchInputRef}
               value={searchQuery}
-              onChange={(e) => handleSearch(e.target.value)}
-              onKeyPress={handleKeyPress}
+              onChange={handleSearch}
+              onKeyDown={handleKeyDown}
               placeholder="Search news articles... (Press Enter to search)"
-              className="flex-1 text-lg outline-none"
             />
 
+            {/* Syntax Help */}
+            <div className="relative">
+              <button
+                onClick={() => setShowHelp(!showHelp)}
+                className={`w-6 h-6 flex items-center justify-center text-xs font-semibold rounded-full border transition-colors ${
+                  showHelp ? 'bg-blue-50 text-blue-700 border-blue-300' : 'text-gray-500 border-gray-300 hover:bg-gray-100'
+                }`}
+                title="Search syntax"
+              >
+                ?
+              </button>
+              {showHelp && (
+                <div className="absolute right-0 top-8 z-20 w-96 bg-white border border-gray-200 rounded-lg shadow-lg p-4">
+                  <div className="text-sm font-semibold text-gray-800 mb-2">Search syntax</div>
+                  <table className="w-full text-xs">
+                    <tbody>
+                      {SEARCH_OPERATORS.map(operator => (
+                        <tr key={operator.syntax} className="align-top">
+                          <td className="py-1 pr-3 font-mono text-blue-700 whitespace-nowrap">{operator.syntax}</td>
+                          <td className="py-1 text-gray-600">
+                            {operator.description}
+                            <button
+                              onClick={() => {
+                                handleSearch(searchQuery.trim() ? `${searchQuery.trim()} ${operator.example}` : operator.example);
+                                searchInputRef.current?.focus();
+                              }}
+                              className="block font-mono text-gray-500 hover:text-blue-600"
+                              title="Add to query"
+                            >
+                              {operator.example}
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
             {/* Keyboard Hint */}
             <kbd className="hidden sm:inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold text-gray-500 bg-gray-100 border border-gray-300 rounded">
               ESC
             </kbd>
           </div>
 
+          {/* Filter Controls */}
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            <div className="w-64">
+              <DateRangePicker
+                value={{ from: searchFilters.from, to: searchFilters.to }}
+                onChange={(range) => updateSearchFilters({ ...searchFilters, ...range })}
+                disabled={loading}
+              />
+            </div>
+            <select
+              value={searchFilters.status}
+              onChange={(e) => updateSearchFilters({ ...searchFilters, status: e.target.value })}
+              disabled={loading}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Status filter"
+            >
+              <option value="">All Status</option>
+              {FEED_STATUSES.map(status => (
+                <option key={status} value={status}>{status.charAt(0).toUpperCase() + status.slice(1)}</option>
+              ))}
+            </select>
+            <select
+              value={searchFilters.category}
+              onChange={(e) => updateSearchFilters({ ...searchFilters, category: e.target.value })}
+              disabled={loading}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Category filter"
+            >
+              <option value="">All Categories</option>
+              {activeCategories.map(category => (
+                <option key={category.id} value={category.slug}>{category.name}</option>
+              ))}
+              {searchFilters.category && !activeCategories.some(category => category.slug === searchFilters.category) && (
+                <option value={searchFilters.category}>{categoryName(searchFilters.category)}</option>
+              )}
+            </select>
+            <select
+              value={searchFilters.ticker}
+              onChange={(e) => updateSearchFilters({ ...searchFilters, ticker: e.target.value })}
+              disabled={loading}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              aria-label="Ticker filter"
+            >
+              <option value="">All Tickers</option>
+              {dictionary.map(entry => (
+                <option key={entry.symbol} value={entry.symbol}>{entry.symbol} – {entry.name}</option>
+              ))}
+              {searchFilters.ticker && !dictionary.some(entry => entry.symbol === searchFilters.ticker) && (
+                <option value={searchFilters.ticker}>{searchFilters.ticker}</option>
+              )}
+            </select>
+            {(searchFilters.from || searchFilters.to || searchFilters.status || searchFilters.category || searchFilters.ticker) && (
+              <button
+                onClick={() => updateSearchFilters(EMPTY_SEARCH_FILTERS)}
+                disabled={loading}
+                className="text-sm text-gray-500 hover:text-gray-800"
+              >
+                Clear filters
+              </button>
+            )}
+            {canInheritFeedFilters && (
+              <label className="ml-auto flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={inheritFeedFilters}
+                  onChange={(e) => handleInheritChange(e.target.checked)}
+                  disabled={loading}
+                  className="rounded border-gray-300"
+                />
+                Use News Feed filters
+              </label>
+            )}
+          </div>
+
+          {queryErrors.length > 0 && (
+            <ul className="mt-2 text-xs text-orange-700 space-y-0.5">
+              {queryErrors.map((error, index) => (
+                <li key={index}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          {/* Command Palette Actions */}
+          {visibleCommands.length > 0 && (
+            <div className="mt-3 pt-3 border-t border-gray-100">
+              <div className="text-xs font-medium text-gray-500 mb-2">Actions</div>
+              <div className="flex flex-wrap gap-2">
+                {visibleCommands.map((command, index) => (
+                  <button
+                    key={command.id}
+                    {...navProps(index)}
+                    onClick={() => runCommand(command)}
+                    className={`px-3 py-1 text-sm rounded-md border transition-colors ${
+                      activeIndex === index
+                        ? 'bg-blue-50 text-blue-700 border-blue-300'
+                        : 'text-gray-700 border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    {command.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Suggestions Section */}
           {loadingSuggestions && (
             <div className="mt-3 pt-3 border-t border-gray-100">
@@ -332,11 +692,13 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
                 {suggestions.map((suggestion, index) => (
                   <button
                     key={index}
-                    onClick={() => {
-                      setSearchQuery(suggestion);
-                      fetchResults(suggestion, 1, false);
-                    }}
-                    className="px-3 py-1 text-sm text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-full transition-colors"
+                    {...navProps(suggestionOffset + index)}
+                    onClick={() => applySuggestion(suggestion)}
+                    className={`px-3 py-1 text-sm rounded-full transition-colors ${
+                      activeIndex === suggestionOffset + index
+                        ? 'bg-blue-100 text-blue-800'
+                        : 'text-gray-700 bg-gray-100 hover:bg-gray-200'
+                    }`}
                   >
                     {suggestion}
                   </button>
@@ -378,6 +740,89 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
                 Searching...
               </div>
             </div>
+          ) : searchQuery.trim() === '' && (savedSearches.length > 0 || recentSearches.length > 0) ? (
+            <div className="p-4 space-y-6">
+              {savedSearches.length > 0 && (
+                <div>
+                  <div className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2">Saved searches</div>
+                  <ul className="space-y-1">
+                    {savedSearches.map((saved, index) => (
+                      <li
+                        key={saved.id}
+                        className={`group flex items-center gap-2 rounded-md ${activeIndex === savedOffset + index ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                      >
+                        <button
+                          {...navProps(savedOffset + index)}
+                          onClick={() => runSearch(saved)}
+                          className="flex-1 min-w-0 text-left px-3 py-2"
+                        >
+                          <span className="block text-sm font-medium text-gray-800 truncate">{saved.name}</span>
+                          <span className="block text-xs text-gray-500 truncate">
+                            {[saved.query, ...describeSearchFilters(saved.filters, categoryName)].filter(Boolean).join(' · ')}
+                          </span>
+                        </button>
+                        <button
+                          onClick={() => togglePinned(saved.id)}
+                          className={`p-1 rounded hover:bg-gray-200 ${saved.pinned ? 'text-blue-600' : 'text-gray-400 opacity-0 group-hover:opacity-100'}`}
+                          title={saved.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                        >
+                          <svg className="w-4 h-4" fill={saved.pinned ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={() => removeSavedSearch(saved.id)}
+                          className="p-1 mr-2 rounded text-gray-400 hover:text-red-600 hover:bg-gray-200 opacity-0 group-hover:opacity-100"
+                          title="Delete saved search"
+                        >
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {recentSearches.length > 0 && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-medium text-gray-500 uppercase tracking-wide">Recent searches</span>
+                    <button
+                      onClick={clearRecentSearches}
+                      className="text-xs text-gray-500 hover:text-gray-800"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                  <ul className="space-y-1">
+                    {recentSearches.map((recent, index) => {
+                      const filterLabels = describeSearchFilters(recent.filters, categoryName);
+                      return (
+                        <li key={`${recent.searchedAt}-${recent.query}`}>
+                          <button
+                            {...navProps(recentOffset + index)}
+                            onClick={() => runSearch(recent)}
+                            className={`w-full flex items-center gap-3 text-left px-3 py-2 rounded-md ${
+                              activeIndex === recentOffset + index ? 'bg-blue-50' : 'hover:bg-gray-50'
+                            }`}
+                          >
+                            <svg className="w-4 h-4 text-gray-400 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                            </svg>
+                            <span className="text-sm text-gray-800 truncate">{recent.query}</span>
+                            {filterLabels.length > 0 && (
+                              <span className="text-xs text-gray-500 truncate">{filterLabels.join(' · ')}</span>
+                            )}
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              )}
+            </div>
           ) : searchQuery.trim() === '' ? (
             <div className="flex flex-col items-center justify-center py-12 text-gray-500">
               <svg
@@ -412,28 +857,91 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
                 />
               </svg>
               <p className="text-lg font-medium">No results found</p>
-              <p className="text-sm mt-1">Try a different search term</p>
+              {showLoadMore ? (
+                <>
+                  <p className="text-sm mt-1">No matches for {lastQueryTicker} in the first {currentPage * pageSize} results</p>
+                  <button
+                    onClick={loadMore}
+                    className="mt-3 px-4 py-2 text-sm font-medium text-blue-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    Search further
+                  </button>
+                </>
+              ) : (
+                <p className="text-sm mt-1">Try a different search term</p>
+              )}
             </div>
           ) : (
             <div className="p-4">
               {results.length > 0 && (
-                <div className="text-sm text-gray-600 mb-4">
-                  Showing {results.length} result{results.length !== 1 ? 's' : ''}
+                <div className="flex items-center justify-between gap-4 text-sm text-gray-600 mb-4">
+                  <div>
+                    Showing {results.length} result{results.length !== 1 ? 's' : ''}
+                    {malformedCount > 0 && (
+                      <span className="ml-2 text-yellow-700">
+                        ({malformedCount} malformed result{malformedCount !== 1 ? 's' : ''} hidden)
+                      </span>
+                    )}
+                  </div>
+
+                  {/* Save Search */}
+                  {saveName === null ? (
+                    <div className="flex items-center gap-4">
+                      <button
+                        onClick={handleWatchSearch}
+                        disabled={isCurrentSearchWatched}
+                        className="text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-default"
+                        title="Get an alert when new articles match this search"
+                      >
+                        {isCurrentSearchWatched ? 'Watching' : 'Watch'}
+                      </button>
+                      <button
+                        onClick={() => setSaveName(lastQuery.trim())}
+                        disabled={isCurrentSearchSaved}
+                        className="text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-default"
+                      >
+                        {isCurrentSearchSaved ? 'Saved' : 'Save search'}
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={saveName}
+                        onChange={(e) => setSaveName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleSaveSearch();
+                        }}
+                        placeholder="Name this search"
+                        autoFocus
+                        className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      <button
+                        onClick={handleSaveSearch}
+                        disabled={!saveName.trim()}
+                        className="text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setSaveName(null)}
+                        className="text-gray-500 hover:text-gray-800"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
                 </div>
               )}
               <div className="space-y-4">
                 {results.map((result, index) => (
                   <div
                     key={result.id || `result-${index}`}
-                    onClick={() => {
-                      // Build query params with keywords
-                      const keywords = searchQuery.trim().split(/\s+/).filter(k => k);
-                      const params = new URLSearchParams();
-                      keywords.forEach(keyword => params.append('highlight_keywords', keyword));
-                      router.push(`/news/${result.id}?${params.toString()}`);
-                      onClose();
-                    }}
-                    className="p-4 border border-gray-200 rounded-lg hover:border-blue-500 hover:shadow-md transition-all cursor-pointer"
+                    {...navProps(resultOffset + index)}
+                    onClick={() => openResult(result)}
+                    className={`p-4 border rounded-lg hover:shadow-md transition-all cursor-pointer ${
+                      activeIndex === resultOffset + index ? 'border-blue-500 shadow-md' : 'border-gray-200 hover:border-blue-500'
+                    }`}
                   >
                     {/* Title */}
                     <h3 className="font-semibold text-gray-900 mb-2 hover:text-blue-600 transition-colors">
@@ -475,13 +983,24 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
                     {result.content && (
                       <div
                         className="text-sm text-gray-600 line-clamp-3 search-result-content"
-                        dangerouslySetInnerHTML={{ __html: result.content }}
+                        dangerouslySetInnerHTML={{ __html: sanitizeHtml(result.content, { baseUrl: result.url }) }}
                       />
                     )}
                   </div>
                 ))}
               </div>
 
+              {showLoadMore && (
+                <div className="flex justify-center py-4">
+                  <button
+                    onClick={loadMore}
+                    className="px-4 py-2 text-sm font-medium text-blue-600 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                  >
+                    Load more
+                  </button>
+                </div>
+              )}
+
               {/* Loading more indicator */}
               {loadingMore && (
                 <div className="flex items-center justify-center py-6">
@@ -518,7 +1037,8 @@ export default function SearchModal({ isOpen, onClose }: SearchModalProps) {
         <div className="px-4 py-3 border-t border-gray-200 bg-gray-50 text-xs text-gray-500 flex items-center justify-between rounded-b-lg">
           <div className="flex items-center gap-4">
             <span>Press ESC to close</span>
-            <span>Press Enter to search</span>
+            <span>↑↓ to navigate</span>
+            <span>Enter to search or open</span>
           </div>
           <span>Cmd+K to reopen</span>
         </div>
@@ -0,0 +1,103 @@
+'use client';
+
+import { ReactNode, RefObject, useRef } from 'react';
+import { SearchToken, tokenizeSearchQuery } from '@/utils/searchQuery';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onKeyDown?: (e: React.KeyboardEvent<HTMLInputElement>) => void;
+  inputRef?: RefObject<HTMLInputElement | null>;
+  placeholder?: string;
+}
+
+// Colors only: changing weight or padding would shift the text away from the caret
+const tokenStyles: Record<SearchToken['kind'], string> = {
+  term: 'text-gray-900',
+  phrase: 'text-green-700',
+  exclude: 'text-red-600',
+  qualifier: 'text-gray-900',
+};
+
+function renderTokens(value: string, tokens: SearchToken[]): ReactNode[] {
+  const segments: ReactNode[] = [];
+  let position = 0;
+
+  tokens.forEach((token, index) => {
+    if (token.start > position) {
+      segments.push(value.slice(position, token.start));
+    }
+
+    const raw = value.slice(token.start, token.end);
+    const errorStyle = token.error ? ' underline decoration-wavy decoration-orange-500' : '';
+
+    if (token.kind === 'qualifier') {
+      const keyLength = raw.indexOf(':') + 1;
+      segments.push(
+        <span key={index} className={`${tokenStyles.qualifier}${errorStyle}`}>
+          <span className="text-blue-600 bg-blue-50">{raw.slice(0, keyLength)}</span>
+          {raw.slice(keyLength)}
+        </span>
+      );
+    } else {
+      segments.push(
+        <span key={index} className={`${tokenStyles[token.kind]}${errorStyle}`}>{raw}</span>
+      );
+    }
+    position = token.end;
+  });
+
+  if (position < value.length) {
+    segments.push(value.slice(position));
+  }
+
+  return segments;
+}
+
+/**
+ * Text input that colors recognized search operators as you type.
+ * The input text is transparent and a mirrored overlay underneath shows the colored tokens.
+ */
+export default function SearchQueryInput({
+  value,
+  onChange,
+  onKeyDown,
+  inputRef,
+  placeholder
+}: SearchQueryInputProps) {
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  const syncScroll = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    if (overlayRef.current) {
+      overlayRef.current.scrollLeft = e.currentTarget.scrollLeft;
+    }
+  };
+
+  return (
+    <div className="relative flex-1 min-w-0">
+      <div
+        ref={overlayRef}
+        aria-hidden="true"
+        className="absolute inset-0 overflow-hidden whitespace-pre text-lg pointer-events-none"
+      >
+        {renderTokens(value, tokenizeSearchQuery(value))}
+      </div>
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          syncScroll(e);
+        }}
+        onKeyDown={onKeyDown}
+        onKeyUp={syncScroll}
+        onSelect={syncScroll}
+        onScroll={syncScroll}
+        placeholder={placeholder}
+        spellCheck={false}
+        className="relative w-full text-lg outline-none bg-transparent text-transparent caret-gray-900 placeholder:text-gray-400"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useMemo } from 'react';
+import { NewsItem } from '@/utils/api';
+import { SentimentLabel, articleSentiment } from '@/utils/sentiment';
+
+interface SentimentBadgeProps {
+  article: Pick<NewsItem, 'title' | 'content' | 'sentiment_score'>;
+  size?: 'sm' | 'md';
+  className?: string;
+}
+
+const sentimentStyles: Record<SentimentLabel, string> = {
+  positive: 'bg-emerald-100 text-emerald-800',
+  negative: 'bg-rose-100 text-rose-800',
+  neutral: 'bg-gray-100 text-gray-700',
+};
+
+const sentimentIcons: Record<SentimentLabel, string> = {
+  positive: '▲',
+  negative: '▼',
+  neutral: '●',
+};
+
+export default function SentimentBadge({ article, size = 'sm', className = '' }: SentimentBadgeProps) {
+  const { title, content, sentiment_score } = article;
+  const sentiment = useMemo(
+    () => articleSentiment({ title, content, sentiment_score }),
+    [title, content, sentiment_score]
+  );
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 py-1 font-medium rounded-full ${sentimentStyles[sentiment.label]} ${
+        size === 'md' ? 'px-3 text-body-sm' : 'px-2 text-caption'
+      } ${className}`}
+      title={`Sentiment score ${sentiment.score.toFixed(2)} (${sentiment.source === 'backend' ? 'from the server' : 'estimated from wording'})`}
+    >
+      <span aria-hidden="true" className="text-[0.6em]">{sentimentIcons[sentiment.label]}</span>
+      {sentiment.label}
+    </span>
+  );
+}
@@ -2,6 +2,9 @@
 
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
+import { useAlerts } from '@/context/AlertContext';
+import { useReadingList } from '@/context/ReadingListContext';
+import { useSearch } from '@/context/SearchContext';
 
 const navigationItems = [
   {
@@ -13,6 +16,15 @@ const navigationItems = [
       </svg>
     ),
   },
+  {
+    name: 'Dashboard',
+    href: '/dashboard',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+      </svg>
+    ),
+  },
   {
     name: 'Publishers',
     href: '/publishers',
@@ -22,10 +34,50 @@ const navigationItems = [
       </svg>
     ),
   },
+  {
+    name: 'Reading List',
+    href: '/reading-list',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" />
+      </svg>
+    ),
+  },
+  {
+    name: 'Alerts',
+    href: '/alerts',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+      </svg>
+    ),
+  },
+  {
+    name: 'Categories',
+    href: '/categories',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+      </svg>
+    ),
+  },
+  {
+    name: 'Tickers',
+    href: '/tickers',
+    icon: (
+      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z" />
+      </svg>
+    ),
+  },
 ];
 
 export default function Sidebar() {
   const pathname = usePathname();
+  const { savedSearches, openSearch } = useSearch();
+  const { unreadCount } = useAlerts();
+  const { unreadCount: unreadSavedCount } = useReadingList();
+  const pinnedSearches = savedSearches.filter(saved => saved.pinned);
 
   return (
     <div className="fixed left-0 top-0 h-full w-64 bg-white shadow-lg border-r border-gray-200 z-40">
@@ -54,11 +106,46 @@ export default function Sidebar() {
                       {item.icon}
                     </span>
                     {item.name}
+                    {item.href === '/alerts' && unreadCount > 0 && (
+                      <span className="ml-auto px-2 py-0.5 rounded-full text-caption font-medium bg-blue-600 text-white">
+                        {unreadCount > 99 ? '99+' : unreadCount}
+                      </span>
+                    )}
+                    {item.href === '/reading-list' && unreadSavedCount > 0 && (
+                      <span className="ml-auto px-2 py-0.5 rounded-full text-caption font-medium bg-gray-200 text-gray-700">
+                        {unreadSavedCount > 99 ? '99+' : unreadSavedCount}
+                      </span>
+                    )}
                   </Link>
                 </li>
               );
             })}
           </ul>
+
+          {/* Pinned saved searches */}
+          {pinnedSearches.length > 0 && (
+            <div className="mt-6">
+              <h2 className="px-4 mb-2 text-caption font-medium text-gray-500 uppercase tracking-wide">
+                Saved searches
+              </h2>
+              <ul className="space-y-1">
+                {pinnedSearches.map((saved) => (
+                  <li key={saved.id}>
+                    <button
+                      onClick={() => openSearch({ search: saved })}
+                      className="w-full flex items-center px-4 py-2 text-body-sm text-gray-700 rounded-lg hover:bg-gray-100 hover:text-gray-900 transition-colors"
+                      title={saved.query}
+                    >
+                      <svg className="w-4 h-4 mr-3 text-gray-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                      </svg>
+                      <span className="truncate">{saved.name}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </nav>
 
         {/* Footer */}
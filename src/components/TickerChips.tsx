@@ -0,0 +1,48 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useTickers } from '@/context/TickerContext';
+import { TickerText } from '@/utils/tickers';
+
+interface TickerChipsProps {
+  article: TickerText;
+  size?: 'sm' | 'md';
+  // Show at most this many chips, with a "+N" for the rest
+  max?: number;
+  className?: string;
+}
+
+export default function TickerChips({ article, size = 'sm', max, className = '' }: TickerChipsProps) {
+  const { tickersFor, tickerName } = useTickers();
+  const router = useRouter();
+  const symbols = tickersFor(article);
+
+  if (symbols.length === 0) return null;
+
+  const shown = max ? symbols.slice(0, max) : symbols;
+  const hidden = symbols.slice(shown.length);
+  const sizeClass = size === 'md' ? 'px-3 text-body-sm' : 'px-2 text-caption';
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {shown.map(symbol => (
+        <button
+          key={symbol}
+          onClick={(e) => {
+            e.stopPropagation(); // Prevent card click navigation
+            router.push(`/?ticker=${encodeURIComponent(symbol)}`);
+          }}
+          className={`py-0.5 font-mono font-medium rounded bg-amber-50 text-amber-800 border border-amber-200 hover:bg-amber-100 transition-colors ${sizeClass}`}
+          title={`${tickerName(symbol)} – show articles mentioning ${symbol}`}
+        >
+          {symbol}
+        </button>
+      ))}
+      {hidden.length > 0 && (
+        <span className={`py-0.5 rounded text-gray-500 ${sizeClass}`} title={hidden.join(', ')}>
+          +{hidden.length}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -2,14 +2,21 @@
 
 import { useEffect, useState } from 'react';
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface ToastProps {
   message: string;
   type: 'success' | 'error' | 'warning' | 'info';
   duration?: number;
+  // Button shown next to the message, e.g. "Undo"; the toast closes after it runs
+  action?: ToastAction;
   onClose: () => void;
 }
 
-export default function Toast({ message, type, duration = 5000, onClose }: ToastProps) {
+export default function Toast({ message, type, duration = 5000, action, onClose }: ToastProps) {
   const [isVisible, setIsVisible] = useState(false);
   const [isLeaving, setIsLeaving] = useState(false);
 
@@ -91,6 +98,17 @@ export default function Toast({ message, type, duration = 5000, onClose }: Toast
       <div className={getToastStyles()}>
         {getIcon()}
         <span className="flex-1 text-body-sm font-medium">{message}</span>
+        {action && (
+          <button
+            onClick={() => {
+              action.onClick();
+              handleClose();
+            }}
+            className="ml-3 px-2 py-1 text-body-sm font-semibold underline rounded hover:bg-black/5 focus:outline-none focus:ring-2 focus:ring-current"
+          >
+            {action.label}
+          </button>
+        )}
         <button
           onClick={handleClose}
           className="ml-3 text-current hover:text-opacity-75 focus:outline-none"
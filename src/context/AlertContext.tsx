@@ -0,0 +1,321 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { useRouter } from 'next/navigation';
+import { useToast } from '@/context/ToastContext';
+import { StoredSearch } from '@/context/SearchContext';
+import { useTickers } from '@/context/TickerContext';
+import { searchNews } from '@/utils/api';
+import { SearchFilters, parseSearchQuery, readSearchFilters, withSearchFilters, withTickerFallback } from '@/utils/searchQuery';
+
+export interface AlertMatch {
+  id: string;
+  title: string;
+  published_at?: string;
+  foundAt: number;
+  read: boolean;
+}
+
+export interface KeywordWatch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SearchFilters;
+  createdAt: number;
+  // Null until the first successful check, which only records what already matches
+  lastCheckedAt: number | null;
+  // Last check, successful or not; spaces out retries while checks fail
+  lastAttemptAt?: number;
+  seenIds: string[];
+  matches: AlertMatch[];
+  lastError?: string;
+}
+
+export type NotificationState = NotificationPermission | 'unsupported';
+
+interface AlertContextType {
+  watches: KeywordWatch[];
+  unreadCount: number;
+  notificationPermission: NotificationState;
+  addWatch: (name: string, search: StoredSearch) => void;
+  removeWatch: (id: string) => void;
+  // Without arguments marks everything read
+  markRead: (watchId?: string, matchId?: string) => void;
+  clearMatches: (watchId: string) => void;
+  checkNow: () => void;
+  requestNotificationPermission: () => void;
+}
+
+const AlertContext = createContext<AlertContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'alerts:watches';
+const TICK_INTERVAL = 30000;
+const CHECK_INTERVAL = 5 * 60 * 1000;
+const CHECK_SIZE = 30;
+// Search ranks by relevance, so new matches can sit below ones already seen; every check reads
+// this many pages (fewer when the results run out)
+const MAX_CHECK_PAGES = 5;
+// Ids read on the latest check are kept first, so anything still within the checked pages is never
+// evicted and reported again; the headroom covers results that shift between checks
+const MAX_SEEN_IDS = MAX_CHECK_PAGES * CHECK_SIZE * 4;
+const MAX_MATCHES = 100; // Inbox entries kept per watch
+
+function loadWatches(): KeywordWatch[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored
+      .filter(entry => entry && typeof entry.id === 'string' && typeof entry.query === 'string')
+      .map(entry => ({
+        id: entry.id,
+        name: typeof entry.name === 'string' && entry.name ? entry.name : entry.query,
+        query: entry.query,
+        filters: readSearchFilters(entry.filters),
+        createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : 0,
+        lastCheckedAt: typeof entry.lastCheckedAt === 'number' ? entry.lastCheckedAt : null,
+        lastAttemptAt: typeof entry.lastAttemptAt === 'number' ? entry.lastAttemptAt : undefined,
+        seenIds: Array.isArray(entry.seenIds) ? entry.seenIds.filter((id: unknown) => typeof id === 'string') : [],
+        matches: Array.isArray(entry.matches)
+          ? entry.matches
+            .filter((match: Partial<AlertMatch>) => match && typeof match.id === 'string')
+            .map((match: Partial<AlertMatch>) => ({
+              id: match.id as string,
+              title: typeof match.title === 'string' ? match.title : '',
+              published_at: typeof match.published_at === 'string' ? match.published_at : undefined,
+              foundAt: typeof match.foundAt === 'number' ? match.foundAt : 0,
+              read: match.read === true
+            }))
+          : []
+      }));
+  } catch {
+    return [];
+  }
+}
+
+function saveWatches(watches: KeywordWatch[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(watches));
+  } catch {
+    // Storage unavailable (private mode, quota); alerts still work for this session
+  }
+}
+
+function currentPermission(): NotificationState {
+  return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+}
+
+interface AlertProviderProps {
+  children: ReactNode;
+}
+
+export function AlertProvider({ children }: AlertProviderProps) {
+  const [watches, setWatches] = useState<KeywordWatch[]>([]);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationState>('unsupported');
+  const watchesRef = useRef<KeywordWatch[]>([]);
+  const inFlightRef = useRef(new Set<string>());
+  const loadedRef = useRef(false);
+  const { showInfo } = useToast();
+  const { tickersFor, tickerName } = useTickers();
+  const showInfoRef = useRef(showInfo);
+  const router = useRouter();
+
+  useEffect(() => {
+    showInfoRef.current = showInfo;
+  });
+
+  const updateWatches = useCallback((update: (prev: KeywordWatch[]) => KeywordWatch[]) => {
+    watchesRef.current = update(watchesRef.current);
+    setWatches(watchesRef.current);
+    saveWatches(watchesRef.current);
+  }, []);
+
+  const updateWatch = useCallback((id: string, update: (watch: KeywordWatch) => KeywordWatch) => {
+    updateWatches(prev => prev.map(watch => watch.id === id ? update(watch) : watch));
+  }, [updateWatches]);
+
+  const notify = useCallback((watch: KeywordWatch, found: AlertMatch[]) => {
+    const summary = found.length === 1
+      ? `New article for "${watch.name}": ${found[0].title || 'Untitled'}`
+      : `${found.length} new articles for "${watch.name}"`;
+    showInfoRef.current(summary);
+
+    if (currentPermission() !== 'granted') return;
+    try {
+      const notification = new Notification('News alert', { body: summary, tag: `alert-${watch.id}` });
+      notification.onclick = () => {
+        window.focus();
+        router.push('/alerts');
+        notification.close();
+      };
+    } catch {
+      // Some browsers only allow notifications from a service worker; the toast still shows
+    }
+  }, [router]);
+
+  const checkWatch = useCallback(async (watch: KeywordWatch) => {
+    const parsed = withSearchFilters(parseSearchQuery(watch.query), watch.filters);
+    if (parsed.errors.length > 0) {
+      updateWatch(watch.id, entry => ({ ...entry, lastAttemptAt: Date.now(), lastError: parsed.errors[0] }));
+      return;
+    }
+
+    inFlightRef.current.add(watch.id);
+    try {
+      const { ticker } = parsed;
+      const seen = new Set(watch.seenIds);
+      const isBaseline = watch.lastCheckedAt === null;
+      const now = Date.now();
+
+      const found: AlertMatch[] = [];
+      // Every id read this time, including ones the ticker filter drops
+      const readIds: string[] = [];
+      for (let page = 1; page <= MAX_CHECK_PAGES; page++) {
+        const data = await searchNews({ ...withTickerFallback(parsed, tickerName), page, size: CHECK_SIZE });
+        data.data.forEach(item => {
+          if (!item.id || readIds.includes(item.id)) return;
+          readIds.push(item.id);
+
+          if (seen.has(item.id) || (ticker && !tickersFor(item).includes(ticker))) return;
+          found.push({ id: item.id, title: item.title, published_at: item.published_at, foundAt: now, read: false });
+        });
+
+        const lastPage = data.pagination ? page >= data.pagination.total_pages : data.data.length < CHECK_SIZE;
+        if (lastPage) break;
+      }
+      const read = new Set(readIds);
+
+      // Re-read the watch: it may have been edited or removed while the request was out
+      const current = watchesRef.current.find(entry => entry.id === watch.id);
+      if (!current) return;
+
+      updateWatch(watch.id, entry => ({
+        ...entry,
+        lastCheckedAt: now,
+        lastAttemptAt: now,
+        lastError: undefined,
+        seenIds: [...readIds, ...entry.seenIds.filter(id => !read.has(id))].slice(0, MAX_SEEN_IDS),
+        matches: isBaseline ? entry.matches : [...found, ...entry.matches].slice(0, MAX_MATCHES)
+      }));
+
+      if (!isBaseline && found.length > 0) {
+        notify(current, found);
+      }
+    } catch (error) {
+      console.error('Error checking alert:', error);
+      // lastCheckedAt stays as it was, so a first check that fails still records the baseline when it succeeds
+      updateWatch(watch.id, entry => ({ ...entry, lastAttemptAt: Date.now(), lastError: 'Check failed; retrying later' }));
+    } finally {
+      inFlightRef.current.delete(watch.id);
+    }
+  }, [notify, tickerName, tickersFor, updateWatch]);
+
+  const runDueChecks = useCallback((force = false) => {
+    const now = Date.now();
+    watchesRef.current.forEach(watch => {
+      if (inFlightRef.current.has(watch.id)) return;
+      const lastAttempt = watch.lastAttemptAt ?? watch.lastCheckedAt;
+      if (force || lastAttempt === null || now - lastAttempt >= CHECK_INTERVAL) {
+        checkWatch(watch);
+      }
+    });
+  }, [checkWatch]);
+
+  const addWatch = useCallback((name: string, search: StoredSearch) => {
+    const watch: KeywordWatch = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name: name.trim() || search.query.trim(),
+      query: search.query.trim(),
+      filters: search.filters,
+      createdAt: Date.now(),
+      lastCheckedAt: null,
+      seenIds: [],
+      matches: []
+    };
+    updateWatches(prev => [...prev, watch]);
+    checkWatch(watch); // Record the baseline right away
+  }, [checkWatch, updateWatches]);
+
+  const removeWatch = useCallback((id: string) => {
+    updateWatches(prev => prev.filter(watch => watch.id !== id));
+  }, [updateWatches]);
+
+  const markRead = useCallback((watchId?: string, matchId?: string) => {
+    updateWatches(prev => prev.map(watch =>
+      !watchId || watch.id === watchId
+        ? { ...watch, matches: watch.matches.map(match => !matchId || match.id === matchId ? { ...match, read: true } : match) }
+        : watch
+    ));
+  }, [updateWatches]);
+
+  const clearMatches = useCallback((watchId: string) => {
+    updateWatch(watchId, watch => ({ ...watch, matches: [] }));
+  }, [updateWatch]);
+
+  const checkNow = useCallback(() => runDueChecks(true), [runDueChecks]);
+
+  const refreshPermission = useCallback(() => {
+    setNotificationPermission(currentPermission());
+  }, []);
+
+  const requestNotificationPermission = useCallback(() => {
+    if (currentPermission() !== 'default') return;
+    Notification.requestPermission().then(refreshPermission).catch(() => {
+      // Older browsers only support the callback form; the permission stays undecided
+    });
+  }, [refreshPermission]);
+
+  // Restore watches from a previous page load
+  useEffect(() => {
+    if (loadedRef.current) return;
+    loadedRef.current = true;
+
+    const stored = loadWatches();
+    if (stored.length > 0) {
+      updateWatches(prev => [...stored.filter(entry => !prev.some(watch => watch.id === entry.id)), ...prev]);
+    }
+    refreshPermission(); // Not known during server rendering
+  }, [refreshPermission, updateWatches]);
+
+  // Re-run watches in the background, also while the tab is hidden so notifications can fire
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (!document.hidden) {
+        runDueChecks();
+      }
+    };
+
+    const interval = setInterval(() => runDueChecks(), TICK_INTERVAL);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [runDueChecks]);
+
+  const unreadCount = watches.reduce((count, watch) => count + watch.matches.filter(match => !match.read).length, 0);
+
+  return (
+    <AlertContext.Provider value={{
+      watches,
+      unreadCount,
+      notificationPermission,
+      addWatch,
+      removeWatch,
+      markRead,
+      clearMatches,
+      checkNow,
+      requestNotificationPermission
+    }}>
+      {children}
+    </AlertContext.Provider>
+  );
+}
+
+export function useAlerts() {
+  const context = useContext(AlertContext);
+  if (context === undefined) {
+    throw new Error('useAlerts must be used within an AlertProvider');
+  }
+  return context;
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { Category, listCategories } from '@/utils/api';
+
+interface CategoryContextType {
+  // All categories, archived ones included so existing articles still get a label
+  categories: Category[];
+  // Categories that can be picked for new articles and filters
+  activeCategories: Category[];
+  loading: boolean;
+  loadError: boolean;
+  refreshCategories: () => Promise<void>;
+  upsertCategory: (category: Category) => void;
+  categoryName: (slug: string) => string;
+}
+
+const CategoryContext = createContext<CategoryContextType | undefined>(undefined);
+
+interface CategoryProviderProps {
+  children: ReactNode;
+}
+
+export function CategoryProvider({ children }: CategoryProviderProps) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+
+  const refreshCategories = useCallback(async () => {
+    try {
+      const result = await listCategories(true);
+      setCategories(result.data);
+      setLoadError(false);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      setLoadError(true);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const upsertCategory = useCallback((category: Category) => {
+    setCategories(prev => prev.some(entry => entry.id === category.id)
+      ? prev.map(entry => entry.id === category.id ? category : entry)
+      : [...prev, category]
+    );
+  }, []);
+
+  const activeCategories = useMemo(
+    () => categories.filter(category => !category.archived),
+    [categories]
+  );
+
+  const categoryName = useCallback((slug: string) => {
+    return categories.find(category => category.slug === slug)?.name || slug;
+  }, [categories]);
+
+  useEffect(() => {
+    refreshCategories();
+  }, [refreshCategories]);
+
+  return (
+    <CategoryContext.Provider value={{
+      categories,
+      activeCategories,
+      loading,
+      loadError,
+      refreshCategories,
+      upsertCategory,
+      categoryName
+    }}>
+      {children}
+    </CategoryContext.Provider>
+  );
+}
+
+export function useCategories() {
+  const context = useContext(CategoryContext);
+  if (context === undefined) {
+    throw new Error('useCategories must be used within a CategoryProvider');
+  }
+  return context;
+}
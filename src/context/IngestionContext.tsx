@@ -0,0 +1,297 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import IngestionIndicator from '@/components/IngestionIndicator';
+import { ApiError, NewsEvent, NewsItem, getNews, subscribeNewsEvents } from '@/utils/api';
+
+export type TrackedStatus = 'processing' | 'synced' | 'failed' | 'stalled';
+
+export interface TrackedArticle {
+  id: string;
+  title: string;
+  addedAt: number;
+  checks: number;
+  nextCheckAt: number;
+  status: TrackedStatus;
+}
+
+export type ArticleChange = 'created' | 'updated';
+
+type ArticleListener = (item: NewsItem, change: ArticleChange) => void;
+
+interface IngestionContextType {
+  trackedArticles: TrackedArticle[];
+  // True while the realtime event stream is connected; polling is the fallback otherwise
+  realtimeConnected: boolean;
+  trackArticle: (item: NewsItem) => void;
+  // Stop checking an article, e.g. once it has been deleted
+  untrackArticle: (id: string) => void;
+  dismissFinished: () => void;
+  subscribe: (listener: ArticleListener) => () => void;
+}
+
+const IngestionContext = createContext<IngestionContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'ingestion-tracker:pending';
+const TICK_INTERVAL = 1000;
+const BASE_DELAY = 5000;
+const MAX_DELAY = 60000;
+const BACKOFF_FACTOR = 1.5;
+const MAX_TRACKING_AGE = 24 * 60 * 60 * 1000; // Stop checking after a day
+const MAX_STREAM_FAILURES = 3;
+const STREAM_RETRY_DELAY = 60000;
+
+function nextDelay(checks: number): number {
+  return Math.min(BASE_DELAY * Math.pow(BACKOFF_FACTOR, checks), MAX_DELAY);
+}
+
+function loadPending(): TrackedArticle[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+
+    const now = Date.now();
+    return stored
+      .filter(entry => entry && typeof entry.id === 'string')
+      .map(entry => ({
+        id: entry.id,
+        title: typeof entry.title === 'string' ? entry.title : '',
+        addedAt: typeof entry.addedAt === 'number' ? entry.addedAt : now,
+        checks: 0,
+        nextCheckAt: now,
+        status: 'processing' as const
+      }));
+  } catch {
+    return [];
+  }
+}
+
+function savePending(articles: TrackedArticle[]) {
+  try {
+    const pending = articles
+      .filter(article => article.status === 'processing')
+      .map(({ id, title, addedAt }) => ({ id, title, addedAt }));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(pending));
+  } catch {
+    // Storage unavailable (private mode, quota); tracking still works for this session
+  }
+}
+
+interface IngestionProviderProps {
+  children: ReactNode;
+}
+
+export function IngestionProvider({ children }: IngestionProviderProps) {
+  const [trackedArticles, setTrackedArticles] = useState<TrackedArticle[]>([]);
+  const [realtimeConnected, setRealtimeConnected] = useState(false);
+  const realtimeRef = useRef(false);
+  const articlesRef = useRef<TrackedArticle[]>([]);
+  const inFlightRef = useRef(new Set<string>());
+  const listenersRef = useRef(new Set<ArticleListener>());
+  const loadedRef = useRef(false);
+
+  const updateArticles = useCallback((update: (prev: TrackedArticle[]) => TrackedArticle[]) => {
+    articlesRef.current = update(articlesRef.current);
+    setTrackedArticles(articlesRef.current);
+    savePending(articlesRef.current);
+  }, []);
+
+  const trackArticle = useCallback((item: NewsItem) => {
+    const now = Date.now();
+    updateArticles(prev => [
+      ...prev.filter(article => article.id !== item.id),
+      {
+        id: item.id,
+        title: item.title,
+        addedAt: now,
+        checks: 0,
+        nextCheckAt: now + BASE_DELAY,
+        status: 'processing'
+      }
+    ]);
+  }, [updateArticles]);
+
+  const untrackArticle = useCallback((id: string) => {
+    updateArticles(prev => prev.filter(article => article.id !== id));
+  }, [updateArticles]);
+
+  const dismissFinished = useCallback(() => {
+    updateArticles(prev => prev.filter(article => article.status === 'processing'));
+  }, [updateArticles]);
+
+  const subscribe = useCallback((listener: ArticleListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const checkArticle = useCallback(async (article: TrackedArticle) => {
+    inFlightRef.current.add(article.id);
+    try {
+      const updated = await getNews(article.id);
+
+      if (updated.status !== 'added') {
+        listenersRef.current.forEach(listener => listener(updated, 'updated'));
+      }
+
+      updateArticles(prev => prev.map(entry => {
+        if (entry.id !== article.id) return entry;
+        if (updated.status === 'synced' || updated.status === 'failed') {
+          return { ...entry, title: updated.title || entry.title, status: updated.status };
+        }
+        return { ...entry, checks: entry.checks + 1, nextCheckAt: Date.now() + nextDelay(entry.checks + 1) };
+      }));
+    } catch (error) {
+      // The article was deleted, so it will never finish processing
+      if (error instanceof ApiError && error.status === 404) {
+        untrackArticle(article.id);
+        return;
+      }
+
+      console.error('Error checking news status:', error);
+      // Back off on errors too, so a down backend isn't hammered
+      updateArticles(prev => prev.map(entry =>
+        entry.id === article.id
+          ? { ...entry, checks: entry.checks + 1, nextCheckAt: Date.now() + nextDelay(entry.checks + 1) }
+          : entry
+      ));
+    } finally {
+      inFlightRef.current.delete(article.id);
+    }
+  }, [updateArticles, untrackArticle]);
+
+  const handleNewsEvent = useCallback((event: NewsEvent) => {
+    const change: ArticleChange = event.type === 'news.created' ? 'created' : 'updated';
+    listenersRef.current.forEach(listener => listener(event.item, change));
+
+    const { item } = event;
+    if (item.status === 'synced' || item.status === 'failed') {
+      updateArticles(prev => prev.map(entry =>
+        entry.id === item.id && entry.status === 'processing'
+          ? { ...entry, title: item.title || entry.title, status: item.status as TrackedStatus }
+          : entry
+      ));
+    }
+  }, [updateArticles]);
+
+  // Realtime channel; while connected, polling only runs as a slow safety net
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return;
+
+    let unsubscribe: (() => void) | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let failures = 0;
+
+    const setConnected = (connected: boolean) => {
+      realtimeRef.current = connected;
+      setRealtimeConnected(connected);
+    };
+
+    const connect = () => {
+      unsubscribe = subscribeNewsEvents({
+        onEvent: handleNewsEvent,
+        onOpen: () => {
+          failures = 0;
+          setConnected(true);
+        },
+        onError: (closed) => {
+          setConnected(false);
+          failures++;
+          // Stop the browser's reconnect loop and fall back to polling for a while
+          if (closed || failures >= MAX_STREAM_FAILURES) {
+            unsubscribe?.();
+            unsubscribe = null;
+            retryTimer = setTimeout(() => {
+              failures = 0;
+              connect();
+            }, STREAM_RETRY_DELAY);
+          }
+        }
+      });
+    };
+
+    connect();
+    return () => {
+      unsubscribe?.();
+      clearTimeout(retryTimer);
+      setConnected(false);
+    };
+  }, [handleNewsEvent]);
+
+  // Restore pending articles from a previous page load
+  useEffect(() => {
+    if (loadedRef.current) return;
+    loadedRef.current = true;
+
+    const pending = loadPending();
+    if (pending.length > 0) {
+      updateArticles(prev => [...pending.filter(entry => !prev.some(article => article.id === entry.id)), ...prev]);
+    }
+  }, [updateArticles]);
+
+  // Single scheduler for all tracked articles; paused while the tab is hidden
+  useEffect(() => {
+    const tick = () => {
+      if (document.hidden) return;
+
+      const now = Date.now();
+      articlesRef.current.forEach(article => {
+        if (article.status !== 'processing' || inFlightRef.current.has(article.id)) return;
+
+        if (now - article.addedAt > MAX_TRACKING_AGE) {
+          updateArticles(prev => prev.map(entry =>
+            entry.id === article.id ? { ...entry, status: 'stalled' } : entry
+          ));
+          return;
+        }
+
+        const dueAt = realtimeRef.current ? article.nextCheckAt + MAX_DELAY : article.nextCheckAt;
+        if (dueAt <= now) {
+          checkArticle(article);
+        }
+      });
+    };
+
+    // Check right away when the tab becomes visible again instead of waiting for the next tick
+    const handleVisibilityChange = () => {
+      if (!document.hidden) {
+        tick();
+      }
+    };
+
+    const interval = setInterval(tick, TICK_INTERVAL);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [checkArticle, updateArticles]);
+
+  return (
+    <IngestionContext.Provider value={{
+      trackedArticles,
+      realtimeConnected,
+      trackArticle,
+      untrackArticle,
+      dismissFinished,
+      subscribe
+    }}>
+      {children}
+
+      <IngestionIndicator
+        articles={trackedArticles}
+        realtimeConnected={realtimeConnected}
+        onDismissFinished={dismissFinished}
+      />
+    </IngestionContext.Provider>
+  );
+}
+
+export function useIngestion() {
+  const context = useContext(IngestionContext);
+  if (context === undefined) {
+    throw new Error('useIngestion must be used within an IngestionProvider');
+  }
+  return context;
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, useSyncExternalStore, ReactNode } from 'react';
+import { useIngestion } from '@/context/IngestionContext';
+import { useToast } from '@/context/ToastContext';
+import { ApiError, CreateNewsInput, createNews, deleteNews, isNetworkError, serviceWorkerUrl } from '@/utils/api';
+
+export type QueuedAction =
+  | { id: string; type: 'create'; input: CreateNewsInput; queuedAt: number }
+  | { id: string; type: 'delete'; newsId: string; title: string; queuedAt: number };
+
+interface OfflineContextType {
+  // The browser reports no network connection
+  isOffline: boolean;
+  // Some data on screen came from the service worker cache because the backend was unreachable
+  showingCachedData: boolean;
+  pendingActions: QueuedAction[];
+  queueCreate: (input: CreateNewsInput) => void;
+  // Pass notify = false when reporting a batch some other way
+  queueDelete: (newsId: string, title: string, notify?: boolean) => void;
+  isPendingDelete: (newsId: string) => boolean;
+  replayPending: () => Promise<void>;
+}
+
+const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'offline:queue';
+// The browser's online event misses a backend that is down, so queued actions are also retried on a timer
+const RETRY_INTERVAL = 30000;
+
+function loadQueue(): QueuedAction[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored.filter(action =>
+      action && typeof action.id === 'string' && (
+        (action.type === 'create' && action.input && typeof action.input.url === 'string') ||
+        (action.type === 'delete' && typeof action.newsId === 'string')
+      )
+    );
+  } catch {
+    return [];
+  }
+}
+
+function saveQueue(actions: QueuedAction[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(actions));
+  } catch {
+    // Storage unavailable (private mode, quota); queued actions still replay during this session
+  }
+}
+
+// The server is reachable but not ready (restarting, behind a proxy, rate limiting); try again later
+const isTransientError = (err: unknown) =>
+  err instanceof ApiError && (err.status >= 500 || err.status === 408 || err.status === 429);
+
+const newActionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const subscribeOnlineStatus = (onChange: () => void) => {
+  window.addEventListener('online', onChange);
+  window.addEventListener('offline', onChange);
+  return () => {
+    window.removeEventListener('online', onChange);
+    window.removeEventListener('offline', onChange);
+  };
+};
+
+interface OfflineProviderProps {
+  children: ReactNode;
+}
+
+export function OfflineProvider({ children }: OfflineProviderProps) {
+  const [pendingActions, setPendingActions] = useState<QueuedAction[]>([]);
+  const [showingCachedData, setShowingCachedData] = useState(false);
+  const actionsRef = useRef<QueuedAction[]>([]);
+  const replayingRef = useRef(false);
+  const loadedRef = useRef(false);
+  const { trackArticle, untrackArticle } = useIngestion();
+  const { showInfo, showSuccess, showError } = useToast();
+
+  const isOffline = useSyncExternalStore(subscribeOnlineStatus, () => !navigator.onLine, () => false);
+
+  const updateActions = useCallback((update: (prev: QueuedAction[]) => QueuedAction[]) => {
+    actionsRef.current = update(actionsRef.current);
+    setPendingActions(actionsRef.current);
+    saveQueue(actionsRef.current);
+  }, []);
+
+  const queueCreate = useCallback((input: CreateNewsInput) => {
+    updateActions(prev => [...prev, { id: newActionId(), type: 'create', input, queuedAt: Date.now() }]);
+    showInfo('The server is unreachable. The article will be added once the connection returns.');
+  }, [updateActions, showInfo]);
+
+  const queueDelete = useCallback((newsId: string, title: string, notify = true) => {
+    updateActions(prev => [...prev, { id: newActionId(), type: 'delete', newsId, title, queuedAt: Date.now() }]);
+    if (notify) {
+      showInfo('The server is unreachable. The article will be deleted once the connection returns.');
+    }
+  }, [updateActions, showInfo]);
+
+  const isPendingDelete = useCallback(
+    (newsId: string) => pendingActions.some(action => action.type === 'delete' && action.newsId === newsId),
+    [pendingActions]
+  );
+
+  // Replay in queue order and stop at the first action that still can't reach the server or gets a
+  // transient error; only other client errors drop an action
+  const replayPending = useCallback(async () => {
+    if (replayingRef.current || actionsRef.current.length === 0) return;
+    replayingRef.current = true;
+
+    let synced = 0;
+    try {
+      while (actionsRef.current.length > 0) {
+        const action = actionsRef.current[0];
+        try {
+          if (action.type === 'create') {
+            const created = await createNews(action.input);
+            if (created) trackArticle(created);
+          } else {
+            await deleteNews(action.newsId);
+            untrackArticle(action.newsId);
+          }
+          synced++;
+        } catch (err) {
+          if (isNetworkError(err) || isTransientError(err)) break;
+
+          // Already gone is what a delete wanted
+          if (action.type === 'delete' && err instanceof ApiError && err.status === 404) {
+            untrackArticle(action.newsId);
+          } else {
+            console.error('Error replaying offline action:', err);
+            showError(action.type === 'create'
+              ? `Could not add ${action.input.url}: ${err instanceof Error ? err.message : 'Unknown error'}`
+              : `Could not delete "${action.title}": ${err instanceof Error ? err.message : 'Unknown error'}`);
+          }
+        }
+        updateActions(prev => prev.filter(entry => entry.id !== action.id));
+      }
+    } finally {
+      replayingRef.current = false;
+    }
+
+    if (synced > 0) {
+      setShowingCachedData(false);
+      showSuccess(synced === 1 ? 'Synced 1 offline change.' : `Synced ${synced} offline changes.`);
+    }
+  }, [trackArticle, untrackArticle, updateActions, showSuccess, showError]);
+
+  // Always call the latest replay from listeners and timers
+  const replayRef = useRef(replayPending);
+  useEffect(() => {
+    replayRef.current = replayPending;
+  }, [replayPending]);
+
+  // Restore actions queued in a previous session
+  useEffect(() => {
+    if (loadedRef.current) return;
+    loadedRef.current = true;
+
+    const stored = loadQueue();
+    if (stored.length > 0) {
+      updateActions(prev => [...stored.filter(action => !prev.some(entry => entry.id === action.id)), ...prev]);
+      replayRef.current();
+    }
+  }, [updateActions]);
+
+  // Replay when the connection comes back, and keep trying while anything is queued
+  useEffect(() => {
+    const replay = () => replayRef.current();
+    const interval = setInterval(() => {
+      if (actionsRef.current.length > 0 && navigator.onLine) replay();
+    }, RETRY_INTERVAL);
+
+    window.addEventListener('online', replay);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', replay);
+    };
+  }, []);
+
+  // The service worker is registered in production builds only; in development it would cache stale bundles
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'cached-response') {
+        setShowingCachedData(true);
+      } else if (event.data?.type === 'network-restored') {
+        setShowingCachedData(false);
+        replayRef.current();
+      }
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+
+    navigator.serviceWorker.register(serviceWorkerUrl())
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => {
+        // Scripts and styles loaded before the worker took control aren't cached yet
+        const urls = performance.getEntriesByType('resource')
+          .map(entry => entry.name)
+          .filter(name => name.startsWith(`${window.location.origin}/_next/static/`));
+        registration.active?.postMessage({ type: 'cache-urls', urls });
+      })
+      .catch(err => console.error('Error registering service worker:', err));
+
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
+
+  return (
+    <OfflineContext.Provider value={{
+      isOffline,
+      showingCachedData,
+      pendingActions,
+      queueCreate,
+      queueDelete,
+      isPendingDelete,
+      replayPending
+    }}>
+      {children}
+    </OfflineContext.Provider>
+  );
+}
+
+export function useOffline() {
+  const context = useContext(OfflineContext);
+  if (context === undefined) {
+    throw new Error('useOffline must be used within an OfflineProvider');
+  }
+  return context;
+}
@@ -0,0 +1,140 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { NewsItem, getNews } from '@/utils/api';
+import {
+  ReadingListItem,
+  deleteReadingListItem,
+  getReadingList,
+  getReadingListItem,
+  putReadingListItem
+} from '@/utils/readingListDb';
+
+interface ReadingListContextType {
+  items: ReadingListItem[];
+  unreadCount: number;
+  isSaved: (id: string) => boolean;
+  saveArticle: (article: NewsItem) => void;
+  removeArticle: (id: string) => void;
+  setRead: (id: string, read: boolean) => void;
+  // Looks in storage too, so it works before the list has loaded
+  getSavedArticle: (id: string) => Promise<ReadingListItem | undefined>;
+}
+
+const ReadingListContext = createContext<ReadingListContextType | undefined>(undefined);
+
+// Search highlights from the detail page aren't part of the article
+const stripHighlights = (html?: string) => html?.replace(/<\/?mark\b[^>]*>/gi, '');
+
+function storeItem(item: ReadingListItem) {
+  putReadingListItem(item).catch(err => {
+    // Storage unavailable (private mode, quota); the list still works for this session
+    console.error('Error saving reading list item:', err);
+  });
+}
+
+interface ReadingListProviderProps {
+  children: ReactNode;
+}
+
+export function ReadingListProvider({ children }: ReadingListProviderProps) {
+  const [items, setItems] = useState<ReadingListItem[]>([]);
+  const itemsRef = useRef<ReadingListItem[]>([]);
+  const loadedRef = useRef(false);
+
+  const updateItems = useCallback((update: (prev: ReadingListItem[]) => ReadingListItem[]) => {
+    itemsRef.current = update(itemsRef.current);
+    setItems(itemsRef.current);
+  }, []);
+
+  const updateItem = useCallback((id: string, update: (item: ReadingListItem) => ReadingListItem) => {
+    const current = itemsRef.current.find(item => item.id === id);
+    if (!current) return;
+
+    const next = update(current);
+    updateItems(prev => prev.map(item => (item.id === id ? next : item)));
+    storeItem(next);
+  }, [updateItems]);
+
+  const isSaved = useCallback((id: string) => items.some(item => item.id === id), [items]);
+
+  const saveArticle = useCallback((article: NewsItem) => {
+    if (itemsRef.current.some(item => item.id === article.id)) return;
+
+    const item: ReadingListItem = {
+      id: article.id,
+      article: { ...article, content: stripHighlights(article.content) },
+      savedAt: Date.now(),
+      read: false
+    };
+    updateItems(prev => [item, ...prev]);
+    storeItem(item);
+
+    // Feed cards may carry a shortened preview; keep the full article for offline reading
+    getNews(article.id)
+      .then(full => {
+        updateItem(article.id, saved => ({
+          ...saved,
+          article: { ...saved.article, ...full, content: stripHighlights(full.content) || saved.article.content }
+        }));
+      })
+      .catch(err => console.error('Error fetching full article for the reading list:', err));
+  }, [updateItems, updateItem]);
+
+  const removeArticle = useCallback((id: string) => {
+    updateItems(prev => prev.filter(item => item.id !== id));
+    deleteReadingListItem(id).catch(err => console.error('Error removing reading list item:', err));
+  }, [updateItems]);
+
+  const setRead = useCallback((id: string, read: boolean) => {
+    updateItem(id, item => (item.read === read ? item : { ...item, read }));
+  }, [updateItem]);
+
+  const getSavedArticle = useCallback(async (id: string) => {
+    const loaded = itemsRef.current.find(item => item.id === id);
+    if (loaded) return loaded;
+    try {
+      return await getReadingListItem(id);
+    } catch {
+      return undefined;
+    }
+  }, []);
+
+  // Restore the list saved in previous sessions
+  useEffect(() => {
+    if (loadedRef.current) return;
+    loadedRef.current = true;
+
+    getReadingList()
+      .then(stored => {
+        // Keep anything saved while storage was loading
+        updateItems(prev => [
+          ...prev,
+          ...stored.filter(item => !prev.some(existing => existing.id === item.id))
+        ].sort((a, b) => b.savedAt - a.savedAt));
+      })
+      .catch(err => console.error('Error loading reading list:', err));
+  }, [updateItems]);
+
+  return (
+    <ReadingListContext.Provider value={{
+      items,
+      unreadCount: items.filter(item => !item.read).length,
+      isSaved,
+      saveArticle,
+      removeArticle,
+      setRead,
+      getSavedArticle
+    }}>
+      {children}
+    </ReadingListContext.Provider>
+  );
+}
+
+export function useReadingList() {
+  const context = useContext(ReadingListContext);
+  if (context === undefined) {
+    throw new Error('useReadingList must be used within a ReadingListProvider');
+  }
+  return context;
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import SearchModal from '@/components/SearchModal';
+import { FeedFilters } from '@/utils/feedFilters';
+import { SearchFilters, readSearchFilters } from '@/utils/searchQuery';
+
+export interface StoredSearch {
+  query: string;
+  filters: SearchFilters;
+}
+
+export interface RecentSearch extends StoredSearch {
+  searchedAt: number;
+}
+
+export interface SavedSearch extends StoredSearch {
+  id: string;
+  name: string;
+  pinned: boolean;
+  createdAt: number;
+}
+
+// Page actions the command palette can trigger; the page that owns the UI registers the handler
+export type PageActionId = 'add-news' | 'add-publisher';
+
+interface OpenSearchOptions {
+  // Run this search right away instead of opening empty
+  search?: StoredSearch;
+}
+
+interface SearchContextType {
+  openSearch: (options?: OpenSearchOptions) => void;
+  // Pages with feed filters register them so the modal can offer to inherit them
+  setFeedFilters: (filters: FeedFilters | undefined) => void;
+  recentSearches: RecentSearch[];
+  savedSearches: SavedSearch[];
+  addRecentSearch: (search: StoredSearch) => void;
+  clearRecentSearches: () => void;
+  saveSearch: (name: string, search: StoredSearch) => void;
+  removeSavedSearch: (id: string) => void;
+  togglePinned: (id: string) => void;
+  registerPageAction: (id: PageActionId, handler: () => void) => () => void;
+  // Runs the action if its page is mounted, otherwise queues it for when the page registers; returns whether it ran
+  triggerPageAction: (id: PageActionId) => boolean;
+}
+
+const SearchContext = createContext<SearchContextType | undefined>(undefined);
+
+const RECENT_STORAGE_KEY = 'search:recent';
+const SAVED_STORAGE_KEY = 'search:saved';
+const MAX_RECENT_SEARCHES = 10;
+
+const searchKey = (search: StoredSearch) => JSON.stringify([search.query.trim(), search.filters]);
+
+function loadStored<T>(key: string, read: (entry: Record<string, unknown>) => T | null): T[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) || '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored
+      .filter(entry => entry && typeof entry === 'object' && typeof entry.query === 'string')
+      .map(read)
+      .filter((entry): entry is T => entry !== null);
+  } catch {
+    return [];
+  }
+}
+
+function store(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage unavailable (private mode, quota); searches still work for this session
+  }
+}
+
+interface SearchProviderProps {
+  children: ReactNode;
+}
+
+export function SearchProvider({ children }: SearchProviderProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [initialSearch, setInitialSearch] = useState<StoredSearch | undefined>(undefined);
+  const [feedFilters, setFeedFilters] = useState<FeedFilters | undefined>(undefined);
+  const [recentSearches, setRecentSearches] = useState<RecentSearch[]>([]);
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const recentRef = useRef<RecentSearch[]>([]);
+  const savedRef = useRef<SavedSearch[]>([]);
+  const loadedRef = useRef(false);
+  const pageActionsRef = useRef(new Map<PageActionId, () => void>());
+  const pendingActionRef = useRef<PageActionId | null>(null);
+
+  const updateRecent = useCallback((update: (prev: RecentSearch[]) => RecentSearch[]) => {
+    recentRef.current = update(recentRef.current);
+    setRecentSearches(recentRef.current);
+    store(RECENT_STORAGE_KEY, recentRef.current);
+  }, []);
+
+  const updateSaved = useCallback((update: (prev: SavedSearch[]) => SavedSearch[]) => {
+    savedRef.current = update(savedRef.current);
+    setSavedSearches(savedRef.current);
+    store(SAVED_STORAGE_KEY, savedRef.current);
+  }, []);
+
+  // Restore history after mount; localStorage isn't available during server rendering
+  useEffect(() => {
+    if (loadedRef.current) return;
+    loadedRef.current = true;
+
+    const recent = loadStored<RecentSearch>(RECENT_STORAGE_KEY, entry => ({
+      query: entry.query as string,
+      filters: readSearchFilters(entry.filters),
+      searchedAt: typeof entry.searchedAt === 'number' ? entry.searchedAt : 0
+    }));
+    const saved = loadStored<SavedSearch>(SAVED_STORAGE_KEY, entry => typeof entry.id === 'string' ? {
+      id: entry.id,
+      name: typeof entry.name === 'string' && entry.name ? entry.name : (entry.query as string),
+      query: entry.query as string,
+      filters: readSearchFilters(entry.filters),
+      pinned: entry.pinned === true,
+      createdAt: typeof entry.createdAt === 'number' ? entry.createdAt : 0
+    } : null);
+
+    if (recent.length > 0) updateRecent(() => recent);
+    if (saved.length > 0) updateSaved(() => saved);
+  }, [updateRecent, updateSaved]);
+
+  const openSearch = useCallback((options: OpenSearchOptions = {}) => {
+    setInitialSearch(options.search);
+    setIsOpen(true);
+  }, []);
+
+  const addRecentSearch = useCallback((search: StoredSearch) => {
+    const key = searchKey(search);
+    updateRecent(prev => [
+      { query: search.query.trim(), filters: search.filters, searchedAt: Date.now() },
+      ...prev.filter(entry => searchKey(entry) !== key)
+    ].slice(0, MAX_RECENT_SEARCHES));
+  }, [updateRecent]);
+
+  const clearRecentSearches = useCallback(() => {
+    updateRecent(() => []);
+  }, [updateRecent]);
+
+  const saveSearch = useCallback((name: string, search: StoredSearch) => {
+    const key = searchKey(search);
+    updateSaved(prev => {
+      const existing = prev.find(entry => searchKey(entry) === key);
+      if (existing) {
+        return prev.map(entry => entry.id === existing.id ? { ...entry, name } : entry);
+      }
+      return [...prev, {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        name,
+        query: search.query.trim(),
+        filters: search.filters,
+        pinned: false,
+        createdAt: Date.now()
+      }];
+    });
+  }, [updateSaved]);
+
+  const removeSavedSearch = useCallback((id: string) => {
+    updateSaved(prev => prev.filter(entry => entry.id !== id));
+  }, [updateSaved]);
+
+  const togglePinned = useCallback((id: string) => {
+    updateSaved(prev => prev.map(entry => entry.id === id ? { ...entry, pinned: !entry.pinned } : entry));
+  }, [updateSaved]);
+
+  const registerPageAction = useCallback((id: PageActionId, handler: () => void) => {
+    pageActionsRef.current.set(id, handler);
+    if (pendingActionRef.current === id) {
+      pendingActionRef.current = null;
+      handler();
+    }
+    return () => {
+      if (pageActionsRef.current.get(id) === handler) {
+        pageActionsRef.current.delete(id);
+      }
+    };
+  }, []);
+
+  const triggerPageAction = useCallback((id: PageActionId) => {
+    const handler = pageActionsRef.current.get(id);
+    if (handler) {
+      pendingActionRef.current = null;
+      handler();
+      return true;
+    }
+    pendingActionRef.current = id;
+    return false;
+  }, []);
+
+  // Cmd+K / Ctrl+K opens search from any page
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
+        e.preventDefault();
+        openSearch();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [openSearch]);
+
+  return (
+    <SearchContext.Provider value={{
+      openSearch,
+      setFeedFilters,
+      recentSearches,
+      savedSearches,
+      addRecentSearch,
+      clearRecentSearches,
+      saveSearch,
+      removeSavedSearch,
+      togglePinned,
+      registerPageAction,
+      triggerPageAction
+    }}>
+      {children}
+
+      <SearchModal
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        feedFilters={feedFilters}
+        initialSearch={initialSearch}
+      />
+    </SearchContext.Provider>
+  );
+}
+
+export function useSearch() {
+  const context = useContext(SearchContext);
+  if (context === undefined) {
+    throw new Error('useSearch must be used within a SearchProvider');
+  }
+  return context;
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { DEFAULT_TICKER_DICTIONARY, TickerSymbol, TickerText, extractTickers, normalizeTicker } from '@/utils/tickers';
+
+interface TickerContextType {
+  dictionary: TickerSymbol[];
+  // Symbols mentioned in an article; cached per article object
+  tickersFor: (article: TickerText) => string[];
+  tickerName: (symbol: string) => string;
+  upsertSymbol: (entry: TickerSymbol) => void;
+  removeSymbol: (symbol: string) => void;
+  resetDictionary: () => void;
+}
+
+const TickerContext = createContext<TickerContextType | undefined>(undefined);
+
+const STORAGE_KEY = 'tickers:dictionary';
+
+function loadDictionary(): TickerSymbol[] | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!Array.isArray(stored)) return null;
+
+    return stored
+      .filter(entry => entry && typeof entry.symbol === 'string' && normalizeTicker(entry.symbol))
+      .map(entry => ({
+        symbol: normalizeTicker(entry.symbol),
+        name: typeof entry.name === 'string' ? entry.name : '',
+        aliases: Array.isArray(entry.aliases) ? entry.aliases.filter((alias: unknown) => typeof alias === 'string' && alias) : []
+      }));
+  } catch {
+    return null;
+  }
+}
+
+function saveDictionary(dictionary: TickerSymbol[] | null) {
+  try {
+    if (dictionary) {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(dictionary));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable (private mode, quota); edits still apply for this session
+  }
+}
+
+interface TickerProviderProps {
+  children: ReactNode;
+}
+
+export function TickerProvider({ children }: TickerProviderProps) {
+  const [dictionary, setDictionary] = useState<TickerSymbol[]>(DEFAULT_TICKER_DICTIONARY);
+  const dictionaryRef = useRef<TickerSymbol[]>(DEFAULT_TICKER_DICTIONARY);
+  const loadedRef = useRef(false);
+  const [cache, setCache] = useState(() => new WeakMap<TickerText, string[]>());
+
+  // A custom dictionary is stored only once edited, so default updates reach everyone else
+  const updateDictionary = useCallback((next: TickerSymbol[] | null) => {
+    dictionaryRef.current = next || DEFAULT_TICKER_DICTIONARY;
+    setDictionary(dictionaryRef.current);
+    setCache(new WeakMap());
+    saveDictionary(next);
+  }, []);
+
+  const tickersFor = useCallback((article: TickerText) => {
+    let symbols = cache.get(article);
+    if (!symbols) {
+      symbols = extractTickers(article, dictionary);
+      cache.set(article, symbols);
+    }
+    return symbols;
+  }, [cache, dictionary]);
+
+  const tickerName = useCallback((symbol: string) => {
+    return dictionary.find(entry => entry.symbol === symbol)?.name || symbol;
+  }, [dictionary]);
+
+  const upsertSymbol = useCallback((entry: TickerSymbol) => {
+    const current = dictionaryRef.current;
+    updateDictionary(current.some(existing => existing.symbol === entry.symbol)
+      ? current.map(existing => existing.symbol === entry.symbol ? entry : existing)
+      : [...current, entry]
+    );
+  }, [updateDictionary]);
+
+  const removeSymbol = useCallback((symbol: string) => {
+    updateDictionary(dictionaryRef.current.filter(entry => entry.symbol !== symbol));
+  }, [updateDictionary]);
+
+  const resetDictionary = useCallback(() => {
+    updateDictionary(null);
+  }, [updateDictionary]);
+
+  // Restore an edited dictionary from a previous page load
+  useEffect(() => {
+    if (loadedRef.current) return;
+    loadedRef.current = true;
+
+    const stored = loadDictionary();
+    if (stored) {
+      updateDictionary(stored);
+    }
+  }, [updateDictionary]);
+
+  return (
+    <TickerContext.Provider value={{
+      dictionary,
+      tickersFor,
+      tickerName,
+      upsertSymbol,
+      removeSymbol,
+      resetDictionary
+    }}>
+      {children}
+    </TickerContext.Provider>
+  );
+}
+
+export function useTickers() {
+  const context = useContext(TickerContext);
+  if (context === undefined) {
+    throw new Error('useTickers must be used within a TickerProvider');
+  }
+  return context;
+}
@@ -1,21 +1,24 @@
 'use client';
 
-import { createContext, useContext, useState, ReactNode } from 'react';
-import Toast from '@/components/Toast';
+import { createContext, useContext, useRef, useState, ReactNode } from 'react';
+import Toast, { ToastAction } from '@/components/Toast';
 
 interface ToastMessage {
   id: string;
   message: string;
   type: 'success' | 'error' | 'warning' | 'info';
   duration?: number;
+  action?: ToastAction;
 }
 
 interface ToastContextType {
-  showToast: (message: string, type: 'success' | 'error' | 'warning' | 'info', duration?: number) => void;
-  showSuccess: (message: string, duration?: number) => void;
-  showError: (message: string, duration?: number) => void;
-  showWarning: (message: string, duration?: number) => void;
-  showInfo: (message: string, duration?: number) => void;
+  // Returns the toast id, for dismissing it early
+  showToast: (message: string, type: 'success' | 'error' | 'warning' | 'info', duration?: number, action?: ToastAction) => string;
+  showSuccess: (message: string, duration?: number, action?: ToastAction) => string;
+  showError: (message: string, duration?: number, action?: ToastAction) => string;
+  showWarning: (message: string, duration?: number, action?: ToastAction) => string;
+  showInfo: (message: string, duration?: number, action?: ToastAction) => string;
+  dismissToast: (id: string) => void;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -26,37 +29,41 @@ interface ToastProviderProps {
 
 export function ToastProvider({ children }: ToastProviderProps) {
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
+  const nextIdRef = useRef(0);
 
-  const showToast = (message: string, type: 'success' | 'error' | 'warning' | 'info', duration = 5000) => {
-    const id = Date.now().toString();
+  const showToast = (message: string, type: 'success' | 'error' | 'warning' | 'info', duration = 5000, action?: ToastAction) => {
+    // A counter, since several toasts can be shown in the same millisecond
+    const id = `${Date.now()}-${nextIdRef.current++}`;
     const newToast: ToastMessage = {
       id,
       message,
       type,
-      duration
+      duration,
+      action
     };
 
     setToasts(prev => [...prev, newToast]);
+    return id;
   };
 
   const removeToast = (id: string) => {
     setToasts(prev => prev.filter(toast => toast.id !== id));
   };
 
-  const showSuccess = (message: string, duration?: number) => {
-    showToast(message, 'success', duration);
+  const showSuccess = (message: string, duration?: number, action?: ToastAction) => {
+    return showToast(message, 'success', duration, action);
   };
 
-  const showError = (message: string, duration?: number) => {
-    showToast(message, 'error', duration);
+  const showError = (message: string, duration?: number, action?: ToastAction) => {
+    return showToast(message, 'error', duration, action);
   };
 
-  const showWarning = (message: string, duration?: number) => {
-    showToast(message, 'warning', duration);
+  const showWarning = (message: string, duration?: number, action?: ToastAction) => {
+    return showToast(message, 'warning', duration, action);
   };
 
-  const showInfo = (message: string, duration?: number) => {
-    showToast(message, 'info', duration);
+  const showInfo = (message: string, duration?: number, action?: ToastAction) => {
+    return showToast(message, 'info', duration, action);
   };
 
   return (
@@ -65,7 +72,8 @@ export function ToastProvider({ children }: ToastProviderProps) {
       showSuccess,
       showError,
       showWarning,
-      showInfo
+      showInfo,
+      dismissToast: removeToast
     }}>
       {children}
 
@@ -83,6 +91,7 @@ export function ToastProvider({ children }: ToastProviderProps) {
               message={toast.message}
               type={toast.type}
               duration={toast.duration}
+              action={toast.action}
               onClose={() => removeToast(toast.id)}
             />
           </div>
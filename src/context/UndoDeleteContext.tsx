@@ -0,0 +1,208 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { useIngestion } from '@/context/IngestionContext';
+import { useOffline } from '@/context/OfflineContext';
+import { useToast } from '@/context/ToastContext';
+import { ApiError, NewsItem, deleteNews, isNetworkError } from '@/utils/api';
+import { runWithConcurrency } from '@/utils/concurrency';
+
+export interface DeleteFailure {
+  item: NewsItem;
+  message: string;
+  error: unknown;
+}
+
+interface DeleteOptions {
+  // Called as each DELETE request settles once the grace period is over
+  onProgress?: (done: number, total: number) => void;
+  // Called after every request has settled; failed items are visible again
+  onSettled?: (failures: DeleteFailure[]) => void;
+}
+
+type DeletedListener = (ids: string[]) => void;
+
+interface UndoDeleteContextType {
+  // Hide the articles now and delete them after a grace period unless "Undo" is clicked
+  deleteWithUndo: (items: NewsItem[], options?: DeleteOptions) => void;
+  // Deleted, waiting for its grace period, or queued while offline; lists should leave it out
+  isDeleted: (id: string) => boolean;
+  // Called with the ids the server has deleted, so lists can drop them for good
+  subscribe: (listener: DeletedListener) => () => void;
+}
+
+interface PendingDelete {
+  items: NewsItem[];
+  timer: ReturnType<typeof setTimeout>;
+  toastId: string;
+  options: DeleteOptions;
+}
+
+const UndoDeleteContext = createContext<UndoDeleteContextType | undefined>(undefined);
+
+const UNDO_DELAY = 6000;
+
+const deleteErrorMessage = (err: unknown) => {
+  if (err instanceof ApiError) {
+    return err.status === 409 ? 'Conflict with its current state' : err.message;
+  }
+  return err instanceof Error ? err.message : 'Unknown error';
+};
+
+interface UndoDeleteProviderProps {
+  children: ReactNode;
+}
+
+export function UndoDeleteProvider({ children }: UndoDeleteProviderProps) {
+  const [hiddenIds, setHiddenIds] = useState<Set<string>>(new Set());
+  const hiddenRef = useRef<Set<string>>(new Set());
+  const pendingRef = useRef(new Map<string, PendingDelete>());
+  const nextIdRef = useRef(0);
+  const listenersRef = useRef(new Set<DeletedListener>());
+  const { untrackArticle } = useIngestion();
+  const { queueDelete, isPendingDelete } = useOffline();
+  const { showInfo, showError, dismissToast } = useToast();
+
+  const updateHidden = useCallback((update: (prev: Set<string>) => Set<string>) => {
+    hiddenRef.current = update(hiddenRef.current);
+    setHiddenIds(hiddenRef.current);
+  }, []);
+
+  const showHidden = useCallback((items: NewsItem[]) => {
+    updateHidden(prev => new Set([...prev].filter(id => !items.some(item => item.id === id))));
+  }, [updateHidden]);
+
+  const commitDelete = useCallback(async (key: string) => {
+    const pending = pendingRef.current.get(key);
+    if (!pending) return;
+    pendingRef.current.delete(key);
+
+    const { items, options } = pending;
+    let done = 0;
+    const results = await runWithConcurrency(items, 3, async item => {
+      try {
+        return await deleteNews(item.id);
+      } finally {
+        options.onProgress?.(++done, items.length);
+      }
+    });
+
+    const failures: DeleteFailure[] = [];
+    const deletedIds: string[] = [];
+    let queued = 0;
+    results.forEach((result, index) => {
+      const item = items[index];
+      // Already gone is what a delete wanted
+      if (result.status === 'fulfilled' || (result.reason instanceof ApiError && result.reason.status === 404)) {
+        untrackArticle(item.id);
+        deletedIds.push(item.id);
+        return;
+      }
+
+      if (isNetworkError(result.reason)) {
+        queueDelete(item.id, item.title, false);
+        queued++;
+      } else {
+        console.error(`Error deleting news ${item.id}:`, result.reason);
+        failures.push({ item, message: deleteErrorMessage(result.reason), error: result.reason });
+      }
+    });
+
+    if (deletedIds.length > 0) {
+      listenersRef.current.forEach(listener => listener(deletedIds));
+    }
+    // Deleted items are gone from the lists now, and failed ones are shown again; queued ones stay
+    // hidden through the offline queue
+    showHidden(items);
+    if (queued > 0) {
+      showInfo(`The server is unreachable. ${queued === 1 ? 'The article' : `${queued} articles`} will be deleted once the connection returns.`);
+    }
+    if (options.onSettled) {
+      options.onSettled(failures);
+    } else if (failures.length === 1) {
+      const [{ error }] = failures;
+      showError(error instanceof ApiError && error.status === 409
+        ? 'Cannot delete this news item due to a conflict.'
+        : `Failed to delete news item: ${failures[0].message}`);
+    } else if (failures.length > 1) {
+      showError(`Failed to delete ${failures.length} articles.`);
+    }
+  }, [untrackArticle, queueDelete, showHidden, showInfo, showError]);
+
+  const deleteWithUndo = useCallback((items: NewsItem[], options: DeleteOptions = {}) => {
+    if (items.length === 0) return;
+
+    const key = String(nextIdRef.current++);
+    updateHidden(prev => new Set([...prev, ...items.map(item => item.id)]));
+
+    const toastId = showInfo(
+      items.length === 1 ? `Deleted "${items[0].title}".` : `Deleted ${items.length} articles.`,
+      UNDO_DELAY,
+      {
+        label: 'Undo',
+        onClick: () => {
+          const pending = pendingRef.current.get(key);
+          if (!pending) return;
+          clearTimeout(pending.timer);
+          pendingRef.current.delete(key);
+          showHidden(items);
+        }
+      }
+    );
+
+    pendingRef.current.set(key, {
+      items,
+      options,
+      toastId,
+      timer: setTimeout(() => commitDelete(key), UNDO_DELAY)
+    });
+  }, [updateHidden, showHidden, showInfo, commitDelete]);
+
+  const subscribe = useCallback((listener: DeletedListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const isDeleted = useCallback(
+    (id: string) => hiddenIds.has(id) || isPendingDelete(id),
+    [hiddenIds, isPendingDelete]
+  );
+
+  // Commit right away when the page unloads; keepalive lets the requests outlive it
+  useEffect(() => {
+    const handlePageHide = () => {
+      pendingRef.current.forEach(({ items, timer, toastId }) => {
+        clearTimeout(timer);
+        dismissToast(toastId);
+        items.forEach(item => {
+          untrackArticle(item.id);
+          deleteNews(item.id, { keepalive: true }).catch(err => console.error(`Error deleting news ${item.id}:`, err));
+        });
+      });
+      pendingRef.current.clear();
+    };
+
+    window.addEventListener('pagehide', handlePageHide);
+    return () => window.removeEventListener('pagehide', handlePageHide);
+  }, [untrackArticle, dismissToast]);
+
+  return (
+    <UndoDeleteContext.Provider value={{
+      deleteWithUndo,
+      isDeleted,
+      subscribe
+    }}>
+      {children}
+    </UndoDeleteContext.Provider>
+  );
+}
+
+export function useUndoDelete() {
+  const context = useContext(UndoDeleteContext);
+  if (context === undefined) {
+    throw new Error('useUndoDelete must be used within an UndoDeleteProvider');
+  }
+  return context;
+}
@@ -0,0 +1,70 @@
+/**
+ * Date helpers for the analytics dashboard. Days are UTC (YYYY-MM-DD),
+ * matching how `listNews` sends `from` and `to`.
+ */
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface DailyCount {
+  date: string;
+  total: number;
+  failed: number;
+}
+
+export const DEFAULT_RANGE_DAYS = 30;
+// Each day costs two requests, so longer ranges are charted over their most recent days only
+export const MAX_CHART_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+const parseDay = (day: string) => new Date(`${day}T00:00:00Z`).getTime();
+
+/**
+ * Fill in the missing ends of a picked range: `to` defaults to today (or `from`, if later),
+ * and `from` to DEFAULT_RANGE_DAYS days before `to`
+ */
+export function resolveDateRange(range: DateRange, now = Date.now()): DateRange {
+  const today = toDay(now);
+  const to = range.to || (range.from && range.from > today ? range.from : today);
+  const from = range.from || toDay(parseDay(to) - (DEFAULT_RANGE_DAYS - 1) * DAY_MS);
+  return { from, to };
+}
+
+/**
+ * Every day from `from` to `to`, inclusive, keeping only the last `limit` days
+ */
+export function listDays({ from, to }: DateRange, limit = MAX_CHART_DAYS): string[] {
+  const end = parseDay(to);
+  const start = Math.max(parseDay(from), end - (limit - 1) * DAY_MS);
+
+  const days: string[] = [];
+  for (let time = start; time <= end; time += DAY_MS) {
+    days.push(toDay(time));
+  }
+  return days;
+}
+
+/**
+ * Number of days from `from` to `to`, inclusive
+ */
+export function countDays({ from, to }: DateRange): number {
+  return Math.max(0, Math.round((parseDay(to) - parseDay(from)) / DAY_MS) + 1);
+}
+
+/**
+ * Share of failed articles per day, or null on days without articles
+ */
+export function failureRates(days: DailyCount[]): (number | null)[] {
+  return days.map(day => (day.total > 0 ? day.failed / day.total : null));
+}
+
+/**
+ * Short axis label for a day, e.g. "Mar 4"
+ */
+export function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, deleteNews, errorPagePath, getNews, isNetworkError, listNews } from '@/utils/api';
+import { ValidationError } from '@/utils/schema';
+
+function respondWith(body: string | null, init: ResponseInit) {
+  const fetchMock = vi.fn().mockResolvedValue(new Response(body, init));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('ApiError', () => {
+  it('prefers the envelope message, then the status text, then the status', () => {
+    expect(new ApiError(400, 'Bad Request', 'CODE_URL_INVALID', 'URL is invalid').message).toBe('URL is invalid');
+    expect(new ApiError(400, 'Bad Request').message).toBe('Bad Request');
+    expect(new ApiError(500, '').message).toBe('Request failed with status 500');
+  });
+
+  it('matches backend error codes', () => {
+    const err = new ApiError(404, 'Not Found', 'CODE_PUBLISHER_NOT_FOUND');
+    expect(err.hasCode('CODE_PUBLISHER_NOT_FOUND')).toBe(true);
+    expect(err.hasCode('CODE_URL_INVALID')).toBe(false);
+  });
+});
+
+describe('isNetworkError', () => {
+  it('recognizes fetch failures only', () => {
+    expect(isNetworkError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isNetworkError(new ApiError(503, 'Service Unavailable'))).toBe(false);
+    expect(isNetworkError(new Error('boom'))).toBe(false);
+  });
+});
+
+describe('errorPagePath', () => {
+  it('passes the HTTP status through', () => {
+    expect(errorPagePath(new ApiError(404, 'Not Found'))).toBe('/error?code=404&message=Not%20Found');
+  });
+
+  it('reports invalid responses as a bad gateway', () => {
+    const err = new ValidationError([{ path: 'data.id', message: 'required string is missing' }]);
+    expect(errorPagePath(err)).toBe(`/error?code=502&message=${encodeURIComponent(err.message)}`);
+  });
+
+  it('reports anything else as unavailable', () => {
+    expect(errorPagePath(new TypeError('Failed to fetch'))).toBe('/error?code=503&message=Failed%20to%20fetch');
+    expect(errorPagePath('oops')).toBe('/error?code=503&message=Network%20connection%20failed');
+  });
+});
+
+describe('request handling', () => {
+  it('throws an ApiError with the code and message from the error envelope', async () => {
+    respondWith(JSON.stringify({ errors: [{ code: 'CODE_URL_TOO_LONG', message: 'URL is too long' }] }), {
+      status: 400,
+      statusText: 'Bad Request',
+    });
+
+    const err = await getNews('a').catch(e => e);
+    expect(err).toBeInstanceOf(ApiError);
+    expect(err).toMatchObject({ status: 400, statusText: 'Bad Request', code: 'CODE_URL_TOO_LONG', message: 'URL is too long' });
+  });
+
+  it('falls back to the status text when the error body is not JSON', async () => {
+    respondWith('<html>Bad gateway</html>', { status: 502, statusText: 'Bad Gateway' });
+
+    const err = await getNews('a').catch(e => e);
+    expect(err).toMatchObject({ status: 502, code: undefined, message: 'Bad Gateway' });
+  });
+
+  it('accepts empty success responses', async () => {
+    respondWith(null, { status: 204 });
+    await expect(deleteNews('a')).resolves.toBeUndefined();
+  });
+
+  it('throws a ValidationError for an invalid detail response', async () => {
+    respondWith(JSON.stringify({ data: { id: 'a' } }), { status: 200 });
+    await expect(getNews('a')).rejects.toBeInstanceOf(ValidationError);
+  });
+
+  it('returns valid list items and reports the invalid ones', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    respondWith(JSON.stringify({
+      data: [{ id: 'a', title: 'Oil rises', status: 'synced', author: null }, { id: 'b', status: 'synced' }],
+      pagination: { page: 1, size: 30, total: 2, total_pages: 1 },
+    }), { status: 200 });
+
+    const result = await listNews();
+    expect(result.data).toEqual([{ id: 'a', title: 'Oil rises', status: 'synced' }]);
+    expect(result.invalid).toEqual([
+      { index: 1, id: 'b', issues: [{ path: 'data[1].title', message: 'required string is missing' }] },
+    ]);
+    expect(result.pagination).toEqual({ page: 1, size: 30, total: 2, total_pages: 1 });
+    expect(console.warn).toHaveBeenCalledOnce();
+  });
+
+  it('sends list filters and skips the cache on request', async () => {
+    const fetchMock = respondWith(JSON.stringify({ data: [] }), { status: 200 });
+
+    await listNews({ from: '2024-01-01', status: 'synced', page: 2 }, { noStore: true });
+    const [url, init] = fetchMock.mock.calls[0];
+    const query = new URL(url).searchParams;
+    expect(query.get('from')).toBe('2024-01-01T00:00:00Z');
+    expect(query.get('status')).toBe('synced');
+    expect(query.get('page')).toBe('2');
+    expect(init).toMatchObject({ cache: 'no-store' });
+  });
+});
@@ -0,0 +1,511 @@
+/**
+ * Typed client for the news backend API.
+ * This is the only module that knows the backend base URL, paths and query parameter names.
+ * Every response is validated against the schemas below before it is returned.
+ */
+
+import {
+  InvalidItem,
+  ObjectSchema,
+  ValidationError,
+  formatIssues,
+  parseDetail,
+  parseObject,
+  parseList,
+  parseStringList
+} from '@/utils/schema';
+
+const API_BASE_URL = process.env.NEXT_PUBLIC_API_BASE_URL || 'http://localhost:40000/api/v1';
+// Set to /api/dev/news-events to use the local stand-in when the backend has no event stream
+const NEWS_EVENTS_URL = process.env.NEXT_PUBLIC_NEWS_EVENTS_URL || `${API_BASE_URL}/news/events`;
+
+export interface NewsItem {
+  id: string;
+  title: string;
+  thumbnail?: string;
+  status: string;
+  published_at?: string;
+  author?: string;
+  content?: string;
+  url?: string;
+  category?: string; // Category slug
+  sentiment_score?: number; // -1..1, when the backend scores articles
+}
+
+export interface Publisher {
+  id: string;
+  name: string;
+  description?: string;
+  domain: string;
+  website?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface Category {
+  id: string;
+  slug: string;
+  name: string;
+  archived?: boolean;
+}
+
+export interface Pagination {
+  page: number;
+  size: number;
+  total: number;
+  total_pages: number;
+}
+
+export interface ListResponse<T> {
+  data: T[];
+  pagination?: Pagination;
+  // Items that failed validation and were left out of `data`
+  invalid: InvalidItem[];
+}
+
+const newsItemSchema: ObjectSchema = {
+  id: { type: 'string' },
+  title: { type: 'string' },
+  status: { type: 'string' },
+  thumbnail: { type: 'string', optional: true },
+  published_at: { type: 'string', optional: true },
+  author: { type: 'string', optional: true },
+  content: { type: 'string', optional: true },
+  url: { type: 'string', optional: true },
+  category: { type: 'string', optional: true },
+  sentiment_score: { type: 'number', optional: true },
+};
+
+const categorySchema: ObjectSchema = {
+  id: { type: 'string' },
+  slug: { type: 'string' },
+  name: { type: 'string' },
+  archived: { type: 'boolean', optional: true },
+};
+
+const publisherSchema: ObjectSchema = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  domain: { type: 'string' },
+  description: { type: 'string', optional: true },
+  website: { type: 'string', optional: true },
+  created_at: { type: 'string', optional: true },
+  updated_at: { type: 'string', optional: true },
+};
+
+const paginationSchema: ObjectSchema = {
+  page: { type: 'number' },
+  size: { type: 'number' },
+  total: { type: 'number' },
+  total_pages: { type: 'number' },
+};
+
+export interface NewsListParams {
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD
+  status?: string;
+  category?: string;
+  publisherId?: string;
+  page?: number;
+  size?: number;
+}
+
+export interface NewsSearchParams {
+  keywords: string[];
+  phrases?: string[];
+  exclude?: string[];
+  author?: string;
+  publisher?: string; // Name or domain
+  status?: string;
+  category?: string;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+  page?: number;
+  size?: number;
+}
+
+// Fetch options for list requests
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Bypass the HTTP and service worker caches, for requests not worth keeping for offline use
+  noStore?: boolean;
+}
+
+export interface PublisherListParams {
+  page?: number;
+  size?: number;
+}
+
+export interface CreateNewsInput {
+  url: string;
+  category: string;
+}
+
+export interface CategoryInput {
+  name: string;
+  slug: string;
+}
+
+export interface UpdateCategoryInput {
+  name?: string;
+  archived?: boolean;
+}
+
+export interface CreatePublisherInput {
+  name: string;
+  domain: string;
+  description?: string;
+}
+
+// An empty description or website clears it
+export interface UpdatePublisherInput extends CreatePublisherInput {
+  website?: string;
+}
+
+/**
+ * Error codes the backend returns in the `errors` envelope
+ */
+export type ApiErrorCode =
+  | 'CODE_PUBLISHER_NOT_FOUND'
+  | 'CODE_URL_TOO_LONG'
+  | 'CODE_URL_INVALID';
+
+interface ErrorEnvelope {
+  errors?: { code?: string; message?: string }[];
+}
+
+/**
+ * Error thrown for any non-2xx response.
+ * `code` and `message` come from the first entry of the `{ errors: [{ code, message }] }` envelope when present.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  readonly code?: string;
+
+  constructor(status: number, statusText: string, code?: string, message?: string) {
+    super(message || statusText || `Request failed with status ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.statusText = statusText;
+    this.code = code;
+  }
+
+  hasCode(code: ApiErrorCode): boolean {
+    return this.code === code;
+  }
+}
+
+/**
+ * Whether a request failed without reaching the backend (offline, DNS, refused connection)
+ */
+export function isNetworkError(err: unknown): boolean {
+  // fetch rejects with a TypeError when no response arrives
+  return err instanceof TypeError;
+}
+
+/**
+ * Service worker script URL; the worker reads the backend base URL from it to recognize API requests,
+ * and the build id to version its caches. A new build changes the URL, which installs a fresh worker.
+ */
+export function serviceWorkerUrl(): string {
+  const query = new URLSearchParams({ api: API_BASE_URL, v: process.env.NEXT_PUBLIC_BUILD_ID || 'dev' });
+  return `/sw.js?${query}`;
+}
+
+/**
+ * Build the /error page path for a failed request
+ * @param err - An ApiError for HTTP failures, anything else is treated as a network failure
+ * @returns The path to push to the router
+ */
+export function errorPagePath(err: unknown): string {
+  if (err instanceof ApiError) {
+    return `/error?code=${err.status}&message=${encodeURIComponent(err.statusText)}`;
+  }
+  if (err instanceof ValidationError) {
+    return `/error?code=502&message=${encodeURIComponent(err.message)}`;
+  }
+  const errorMessage = err instanceof Error ? err.message : 'Network connection failed';
+  return `/error?code=503&message=${encodeURIComponent(errorMessage)}`;
+}
+
+async function parseErrorEnvelope(response: Response): Promise<{ code?: string; message?: string }> {
+  try {
+    const body: ErrorEnvelope = await response.json();
+    if (body.errors && body.errors[0]) {
+      return { code: body.errors[0].code, message: body.errors[0].message };
+    }
+  } catch {
+    // Body is empty or not JSON
+  }
+  return {};
+}
+
+async function request(path: string, init?: RequestInit): Promise<unknown> {
+  const response = await fetch(`${API_BASE_URL}${path}`, init);
+
+  if (!response.ok) {
+    const { code, message } = await parseErrorEnvelope(response);
+    throw new ApiError(response.status, response.statusText, code, message);
+  }
+
+  if (response.status === 204) {
+    return undefined;
+  }
+
+  const text = await response.text();
+  return text ? JSON.parse(text) : undefined;
+}
+
+function listOf<T>(body: unknown, itemSchema: ObjectSchema, path: string): ListResponse<T> {
+  const { data, pagination, invalid, issues } = parseList<T, Pagination>(body, itemSchema, paginationSchema);
+
+  if (invalid.length > 0 || issues.length > 0) {
+    console.warn(
+      `Malformed response from ${path}:`,
+      formatIssues([...invalid.flatMap(item => item.issues), ...issues])
+    );
+  }
+
+  return { data, pagination, invalid };
+}
+
+function requestInit({ signal, noStore }: RequestOptions): RequestInit {
+  return noStore ? { signal, cache: 'no-store' } : { signal };
+}
+
+function withQuery(path: string, params: URLSearchParams): string {
+  const query = params.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+function jsonBody(method: string, body: unknown): RequestInit {
+  return {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  };
+}
+
+/**
+ * List news articles, newest first
+ * @param params - Date range (YYYY-MM-DD), status, category and publisher filters, and pagination
+ */
+export async function listNews(params: NewsListParams = {}, options: RequestOptions = {}): Promise<ListResponse<NewsItem>> {
+  const query = new URLSearchParams();
+
+  // Convert YYYY-MM-DD to RFC3339 format for Go time.Time parsing
+  if (params.from) {
+    query.append('from', `${params.from}T00:00:00Z`);
+  }
+  if (params.to) {
+    query.append('to', `${params.to}T23:59:59Z`);
+  }
+  if (params.status) {
+    query.append('status', params.status);
+  }
+  if (params.category) {
+    query.append('category', params.category);
+  }
+  if (params.publisherId) {
+    query.append('publisher_id', params.publisherId);
+  }
+  if (params.page) {
+    query.append('page', String(params.page));
+  }
+  if (params.size) {
+    query.append('size', String(params.size));
+  }
+
+  return listOf<NewsItem>(await request(withQuery('/news', query), requestInit(options)), newsItemSchema, '/news');
+}
+
+/**
+ * Get a single news article
+ * @param id - The news id
+ * @param highlightKeywords - Keywords the backend wraps in <mark> tags in the content
+ */
+export async function getNews(id: string, highlightKeywords: string[] = []): Promise<NewsItem> {
+  const query = new URLSearchParams();
+  highlightKeywords.forEach(keyword => query.append('highlight_keywords', keyword));
+
+  const body = await request(withQuery(`/news/${encodeURIComponent(id)}`, query));
+  return parseDetail<NewsItem>(body, newsItemSchema);
+}
+
+/**
+ * Submit a news article URL for ingestion
+ * @returns The created news item, initially in `added` status
+ */
+export async function createNews(input: CreateNewsInput): Promise<NewsItem | undefined> {
+  const body = await request('/news', jsonBody('POST', input));
+  return body === undefined ? undefined : parseDetail<NewsItem>(body, newsItemSchema);
+}
+
+/**
+ * Delete a news article
+ * @param options - `keepalive` lets the request finish while the page unloads
+ */
+export async function deleteNews(id: string, options: { keepalive?: boolean } = {}): Promise<void> {
+  await request(`/news/${encodeURIComponent(id)}`, { method: 'DELETE', keepalive: options.keepalive });
+}
+
+/**
+ * Ask the backend to re-scrape a failed article
+ * @returns The article, back in `added` status
+ */
+export async function retryNews(id: string): Promise<NewsItem | undefined> {
+  const body = await request(`/news/${encodeURIComponent(id)}/retry`, { method: 'POST' });
+  return body === undefined ? undefined : parseDetail<NewsItem>(body, newsItemSchema);
+}
+
+/**
+ * Full-text search
+ * @param params - Keywords, exact phrases, exclusions, field filters and pagination
+ */
+export async function searchNews(params: NewsSearchParams): Promise<ListResponse<NewsItem>> {
+  const query = new URLSearchParams();
+  params.keywords.forEach(keyword => query.append('keywords', keyword));
+  params.phrases?.forEach(phrase => query.append('phrases', phrase));
+  params.exclude?.forEach(term => query.append('exclude', term));
+  if (params.author) {
+    query.append('author', params.author);
+  }
+  if (params.publisher) {
+    query.append('publisher', params.publisher);
+  }
+  if (params.status) {
+    query.append('status', params.status);
+  }
+  if (params.category) {
+    query.append('category', params.category);
+  }
+  if (params.from) {
+    query.append('from', `${params.from}T00:00:00Z`);
+  }
+  if (params.to) {
+    query.append('to', `${params.to}T23:59:59Z`);
+  }
+  if (params.page) {
+    query.append('page', String(params.page));
+  }
+  if (params.size) {
+    query.append('size', String(params.size));
+  }
+
+  return listOf<NewsItem>(await request(withQuery('/news/search', query)), newsItemSchema, '/news/search');
+}
+
+export async function getSearchSuggestions(keywords: string[]): Promise<string[]> {
+  const query = new URLSearchParams();
+  keywords.forEach(keyword => query.append('keywords', keyword));
+
+  return parseStringList(await request(withQuery('/news/search/suggestions', query)));
+}
+
+export async function listPublishers(params: PublisherListParams = {}, options: RequestOptions = {}): Promise<ListResponse<Publisher>> {
+  const query = new URLSearchParams();
+  if (params.page) {
+    query.append('page', String(params.page));
+  }
+  if (params.size) {
+    query.append('size', String(params.size));
+  }
+
+  return listOf<Publisher>(await request(withQuery('/publishers', query), requestInit(options)), publisherSchema, '/publishers');
+}
+
+export async function getPublisher(id: string): Promise<Publisher> {
+  return parseDetail<Publisher>(await request(`/publishers/${encodeURIComponent(id)}`), publisherSchema);
+}
+
+export async function createPublisher(input: CreatePublisherInput): Promise<Publisher | undefined> {
+  const body = await request('/publishers', jsonBody('POST', input));
+  return body === undefined ? undefined : parseDetail<Publisher>(body, publisherSchema);
+}
+
+export async function updatePublisher(id: string, input: UpdatePublisherInput): Promise<Publisher | undefined> {
+  const body = await request(`/publishers/${encodeURIComponent(id)}`, jsonBody('PATCH', input));
+  return body === undefined ? undefined : parseDetail<Publisher>(body, publisherSchema);
+}
+
+/**
+ * Delete a publisher. Fails with 409 while articles from its domain still exist.
+ */
+export async function deletePublisher(id: string): Promise<void> {
+  await request(`/publishers/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
+/**
+ * List news categories
+ * @param includeArchived - Also return archived categories (for the management screen)
+ */
+export async function listCategories(includeArchived = false): Promise<ListResponse<Category>> {
+  const query = new URLSearchParams();
+  if (includeArchived) {
+    query.append('include_archived', 'true');
+  }
+
+  return listOf<Category>(await request(withQuery('/categories', query)), categorySchema, '/categories');
+}
+
+export async function createCategory(input: CategoryInput): Promise<Category | undefined> {
+  const body = await request('/categories', jsonBody('POST', input));
+  return body === undefined ? undefined : parseDetail<Category>(body, categorySchema);
+}
+
+/**
+ * Rename or archive/unarchive a category. Archived categories stay on existing
+ * articles but are no longer offered for new ones.
+ */
+export async function updateCategory(id: string, input: UpdateCategoryInput): Promise<Category | undefined> {
+  const body = await request(`/categories/${encodeURIComponent(id)}`, jsonBody('PATCH', input));
+  return body === undefined ? undefined : parseDetail<Category>(body, categorySchema);
+}
+
+export type NewsEventType = 'news.created' | 'news.status';
+
+export interface NewsEvent {
+  type: NewsEventType;
+  item: NewsItem;
+}
+
+export interface NewsEventHandlers {
+  onEvent: (event: NewsEvent) => void;
+  onOpen?: () => void;
+  // `closed` is true when the browser gave up reconnecting on its own
+  onError?: (closed: boolean) => void;
+}
+
+const NEWS_EVENT_TYPES: NewsEventType[] = ['news.created', 'news.status'];
+
+/**
+ * Subscribe to the Server-Sent Events stream of article changes.
+ * Each event's data is a news item, validated like any other response.
+ * @returns A function that closes the stream
+ */
+export function subscribeNewsEvents(handlers: NewsEventHandlers): () => void {
+  const source = new EventSource(NEWS_EVENTS_URL);
+
+  NEWS_EVENT_TYPES.forEach(type => {
+    source.addEventListener(type, (e: MessageEvent) => {
+      try {
+        const parsed = parseObject<NewsItem>(JSON.parse(e.data), newsItemSchema, type);
+        if (parsed.value !== undefined) {
+          handlers.onEvent({ type, item: parsed.value });
+        } else {
+          console.warn(`Malformed ${type} event:`, formatIssues(parsed.issues));
+        }
+      } catch (error) {
+        console.warn(`Unparseable ${type} event:`, error);
+      }
+    });
+  });
+
+  source.onopen = () => handlers.onOpen?.();
+  source.onerror = () => handlers.onError?.(source.readyState === EventSource.CLOSED);
+
+  return () => source.close();
+}
@@ -0,0 +1,31 @@
+/**
+ * Run an async task for every item with at most `limit` tasks in flight.
+ * Tasks are started in input order; a rejected task does not stop the others.
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent tasks
+ * @param task - Worker called with each item and its index
+ * @returns Settled results in input order
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_PAGE_SIZE,
+  FeedFilters,
+  buildFeedQuery,
+  feedFilterKey,
+  hasActiveFilters,
+  parseFeedFilters
+} from '@/utils/feedFilters';
+
+const defaults: FeedFilters = {
+  from: '',
+  to: '',
+  status: '',
+  category: '',
+  ticker: '',
+  sentiment: '',
+  page: 1,
+  size: DEFAULT_PAGE_SIZE,
+};
+
+const parse = (query: string) => parseFeedFilters(new URLSearchParams(query));
+
+describe('parseFeedFilters', () => {
+  it('reads defaults from an empty query', () => {
+    expect(parse('')).toEqual(defaults);
+  });
+
+  it('reads valid filters', () => {
+    expect(parse('from=2024-01-01&to=2024-01-31&status=failed&category=tech-news&ticker=$aapl&sentiment=positive&page=3&size=50'))
+      .toEqual({
+        from: '2024-01-01',
+        to: '2024-01-31',
+        status: 'failed',
+        category: 'tech-news',
+        ticker: 'AAPL',
+        sentiment: 'positive',
+        page: 3,
+        size: 50,
+      });
+  });
+
+  it('ignores malformed values', () => {
+    expect(parse('from=2024-1-1&to=yesterday&status=pending&category=../admin&ticker=not-a-symbol&sentiment=great'))
+      .toEqual(defaults);
+  });
+
+  it('falls back on page and size that are not positive integers', () => {
+    for (const value of ['0', '-2', '1.5', 'abc', '']) {
+      expect(parse(`page=${value}&size=${value}`)).toMatchObject({ page: 1, size: DEFAULT_PAGE_SIZE });
+    }
+  });
+
+  it('caps the restored page and the page size', () => {
+    expect(parse('page=500&size=1000')).toMatchObject({ page: 10, size: 100 });
+  });
+});
+
+describe('buildFeedQuery', () => {
+  it('leaves out defaults', () => {
+    expect(buildFeedQuery(defaults)).toBe('');
+    expect(buildFeedQuery({ ...defaults, status: 'synced', page: 2 })).toBe('status=synced&page=2');
+  });
+
+  it('round-trips through parseFeedFilters', () => {
+    const filters: FeedFilters = {
+      from: '2024-01-01',
+      to: '2024-02-01',
+      status: 'added',
+      category: 'markets',
+      ticker: 'BRK.B',
+      sentiment: 'negative',
+      page: 4,
+      size: 20,
+    };
+    expect(parse(buildFeedQuery(filters))).toEqual(filters);
+  });
+});
+
+describe('feedFilterKey', () => {
+  it('ignores the loaded page depth', () => {
+    expect(feedFilterKey({ ...defaults, status: 'failed', page: 5 })).toBe(feedFilterKey({ ...defaults, status: 'failed' }));
+    expect(feedFilterKey({ ...defaults, size: 50 })).not.toBe(feedFilterKey(defaults));
+  });
+});
+
+describe('hasActiveFilters', () => {
+  it('counts filters but not paging', () => {
+    expect(hasActiveFilters({ ...defaults, page: 3, size: 50 })).toBe(false);
+    expect(hasActiveFilters({ ...defaults, ticker: 'AAPL' })).toBe(true);
+    expect(hasActiveFilters({ ...defaults, sentiment: 'neutral' })).toBe(true);
+  });
+});
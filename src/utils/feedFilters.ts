@@ -0,0 +1,95 @@
+/**
+ * News Feed filter state as stored in the query string,
+ * so a filtered view can be bookmarked, refreshed and shared.
+ */
+
+import { SENTIMENT_LABELS, SentimentLabel } from '@/utils/sentiment';
+import { normalizeTicker } from '@/utils/tickers';
+
+export interface FeedFilters {
+  from: string; // YYYY-MM-DD, '' when unset
+  to: string; // YYYY-MM-DD, '' when unset
+  status: string;
+  category: string; // Category slug, '' when unset
+  ticker: string; // Ticker symbol, '' when unset; matched client-side against loaded articles
+  sentiment: SentimentLabel | ''; // Matched client-side like ticker
+  page: number;
+  size: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 30;
+const MAX_PAGE_SIZE = 100;
+// Restoring page N loads pages 1..N, so keep shared links from requesting huge batches
+const MAX_RESTORED_PAGE = 10;
+
+export const FEED_STATUSES = ['added', 'synced', 'failed'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Categories come from the API, so only the slug shape can be checked here
+const CATEGORY_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+interface QueryReader {
+  get(name: string): string | null;
+}
+
+function parsePositiveInt(value: string | null, fallback: number, max: number): number {
+  if (!value || !/^\d+$/.test(value)) return fallback;
+  const parsed = parseInt(value, 10);
+  if (parsed < 1) return fallback;
+  return Math.min(parsed, max);
+}
+
+function parseDate(value: string | null): string {
+  return value && DATE_PATTERN.test(value) ? value : '';
+}
+
+/**
+ * Read feed filters from the query string, ignoring values that are malformed
+ * @param params - The current search params
+ */
+export function parseFeedFilters(params: QueryReader): FeedFilters {
+  const status = params.get('status') || '';
+  const category = params.get('category') || '';
+  const sentiment = SENTIMENT_LABELS.find(label => label === params.get('sentiment'));
+
+  return {
+    from: parseDate(params.get('from')),
+    to: parseDate(params.get('to')),
+    status: FEED_STATUSES.includes(status) ? status : '',
+    category: CATEGORY_PATTERN.test(category) ? category : '',
+    ticker: normalizeTicker(params.get('ticker') || ''),
+    sentiment: sentiment || '',
+    page: parsePositiveInt(params.get('page'), 1, MAX_RESTORED_PAGE),
+    size: parsePositiveInt(params.get('size'), DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+  };
+}
+
+/**
+ * Serialize feed filters, leaving out defaults to keep shared URLs short
+ * @returns The query string without the leading '?'
+ */
+export function buildFeedQuery(filters: FeedFilters): string {
+  const params = new URLSearchParams();
+
+  if (filters.from) params.set('from', filters.from);
+  if (filters.to) params.set('to', filters.to);
+  if (filters.status) params.set('status', filters.status);
+  if (filters.category) params.set('category', filters.category);
+  if (filters.ticker) params.set('ticker', filters.ticker);
+  if (filters.sentiment) params.set('sentiment', filters.sentiment);
+  if (filters.page > 1) params.set('page', String(filters.page));
+  if (filters.size !== DEFAULT_PAGE_SIZE) params.set('size', String(filters.size));
+
+  return params.toString();
+}
+
+/**
+ * Identity of the filtered result set, ignoring how many pages have been loaded
+ */
+export function feedFilterKey(filters: FeedFilters): string {
+  return buildFeedQuery({ ...filters, page: 1 });
+}
+
+export function hasActiveFilters(filters: FeedFilters): boolean {
+  return Boolean(filters.from || filters.to || filters.status || filters.category || filters.ticker || filters.sentiment);
+}
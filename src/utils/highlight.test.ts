@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { formatHighlightQuery, highlightHtml, parseHighlightTerms } from '@/utils/highlight';
+
+describe('parseHighlightTerms', () => {
+  it('keeps quoted phrases together and splits the rest on whitespace', () => {
+    expect(parseHighlightTerms('oil "interest  rate" gas')).toEqual(['oil', 'interest rate', 'gas']);
+  });
+
+  it('runs an unterminated quote to the end', () => {
+    expect(parseHighlightTerms('oil "interest rate')).toEqual(['oil', 'interest rate']);
+  });
+
+  it('drops empty terms and case-insensitive duplicates', () => {
+    expect(parseHighlightTerms('Oil "" oil OIL gas')).toEqual(['Oil', 'gas']);
+  });
+
+  it('takes each list entry as one term', () => {
+    expect(parseHighlightTerms(['interest rate', ' oil ', 'Oil'])).toEqual(['interest rate', 'oil']);
+  });
+
+  it('round-trips through formatHighlightQuery', () => {
+    const terms = ['oil', 'interest rate'];
+    expect(formatHighlightQuery(terms)).toBe('oil "interest rate"');
+    expect(parseHighlightTerms(formatHighlightQuery(terms))).toEqual(terms);
+  });
+});
+
+describe('highlightHtml', () => {
+  it('marks matches case-insensitively, numbered in document order, and counts them', () => {
+    const result = highlightHtml('<p>Oil rose.</p><p>OIL fell, oil</p>', ['oil']);
+    expect(result.count).toBe(3);
+    expect(result.html).toBe(
+      '<p><mark data-highlight-index="0">Oil</mark> rose.</p>' +
+      '<p><mark data-highlight-index="1">OIL</mark> fell, <mark data-highlight-index="2">oil</mark></p>'
+    );
+  });
+
+  it('matches phrases across any whitespace and prefers them over contained words', () => {
+    const result = highlightHtml('<p>The interest\n  rate and the rate</p>', ['rate', 'interest rate']);
+    expect(result.count).toBe(2);
+    expect(result.html).toBe(
+      '<p>The <mark data-highlight-index="0">interest\n  rate</mark> and the <mark data-highlight-index="1">rate</mark></p>'
+    );
+  });
+
+  it('treats regex characters in terms literally', () => {
+    expect(highlightHtml('<p>S&amp;P 500 (SPX) up 1.5%</p>', ['(spx)', '1.5%']).count).toBe(2);
+    expect(highlightHtml('<p>1x5</p>', ['1.5']).count).toBe(0);
+  });
+
+  it('does not match inside tags or attributes', () => {
+    const html = '<p><a href="https://example.com/oil" title="oil">Read</a> <img alt="oil" src="https://images.unsplash.com/oil.jpg"></p>';
+    const result = highlightHtml(html, ['oil', 'href', 'img']);
+    expect(result.count).toBe(0);
+    expect(result.html).toBe(html);
+  });
+
+  it('does not match across element boundaries', () => {
+    expect(highlightHtml('<p>interest <b>rate</b></p>', ['interest rate']).count).toBe(0);
+  });
+
+  it('unwraps backend marks before highlighting', () => {
+    const result = highlightHtml('<p><mark>Oil</mark> and <mark>gas</mark></p>', ['oil']);
+    expect(result.count).toBe(1);
+    expect(result.html).toBe('<p><mark data-highlight-index="0">Oil</mark> and gas</p>');
+  });
+
+  it('matches text that a backend mark had split', () => {
+    const result = highlightHtml('<p>interest <mark>rate</mark></p>', ['interest rate']);
+    expect(result.count).toBe(1);
+    expect(result.html).toBe('<p><mark data-highlight-index="0">interest rate</mark></p>');
+  });
+
+  it('only unwraps marks when there are no terms', () => {
+    expect(highlightHtml('<p><mark>Oil</mark></p>', [])).toEqual({ html: '<p>Oil</p>', count: 0 });
+  });
+
+  it('returns empty input unchanged', () => {
+    expect(highlightHtml('', ['oil'])).toEqual({ html: '', count: 0 });
+  });
+});
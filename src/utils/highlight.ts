@@ -0,0 +1,118 @@
+/**
+ * Client-side keyword highlighting for article content, so highlights don't
+ * depend on the backend honoring `highlight_keywords`.
+ */
+
+export const HIGHLIGHT_ATTRIBUTE = 'data-highlight-index';
+
+export interface HighlightResult {
+  html: string;
+  count: number;
+}
+
+/**
+ * Split a highlight query into terms. Double-quoted text is kept as one phrase,
+ * everything else is split on whitespace. Duplicates are removed case-insensitively.
+ * @param query - Raw query, or a list of keywords where each entry is one term
+ */
+export function parseHighlightTerms(query: string | string[]): string[] {
+  const raw: string[] = [];
+
+  if (Array.isArray(query)) {
+    raw.push(...query);
+  } else {
+    const pattern = /"([^"]*)"?|(\S+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(query)) !== null) {
+      raw.push(match[1] ?? match[2]);
+    }
+  }
+
+  const seen = new Set<string>();
+  return raw
+    .map(term => term.trim().replace(/\s+/g, ' '))
+    .filter(term => {
+      const key = term.toLowerCase();
+      if (!term || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Format terms back into a query string, quoting phrases
+ */
+export function formatHighlightQuery(terms: string[]): string {
+  return terms.map(term => (/\s/.test(term) ? `"${term}"` : term)).join(' ');
+}
+
+function buildPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null;
+
+  // Longest first so a phrase wins over a single word it contains
+  const alternatives = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+'));
+
+  return new RegExp(alternatives.join('|'), 'gi');
+}
+
+/**
+ * Wrap every case-insensitive occurrence of the terms in `<mark>` elements numbered
+ * in document order. Marks already present (from the backend) are unwrapped first so
+ * the count and navigation only reflect one consistent set of matches.
+ * Matches spanning element boundaries (e.g. half in `<b>`) are not highlighted.
+ * @param html - Sanitized article HTML
+ * @param terms - Terms from parseHighlightTerms
+ */
+export function highlightHtml(html: string, terms: string[]): HighlightResult {
+  if (!html || typeof DOMParser === 'undefined') {
+    return { html, count: 0 };
+  }
+
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html');
+  const root = doc.body.firstElementChild;
+  if (!root) return { html, count: 0 };
+
+  root.querySelectorAll('mark').forEach(mark => mark.replaceWith(...Array.from(mark.childNodes)));
+  root.normalize(); // Merge the text split by the removed marks
+
+  const pattern = buildPattern(terms);
+  if (!pattern) return { html: root.innerHTML, count: 0 };
+
+  const walker = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text);
+  }
+
+  let count = 0;
+  textNodes.forEach(node => {
+    const text = node.data;
+    pattern.lastIndex = 0;
+    if (!pattern.test(text)) return;
+
+    const fragment = doc.createDocumentFragment();
+    let lastIndex = 0;
+    pattern.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+      if (match.index > lastIndex) {
+        fragment.appendChild(doc.createTextNode(text.slice(lastIndex, match.index)));
+      }
+      const mark = doc.createElement('mark');
+      mark.setAttribute(HIGHLIGHT_ATTRIBUTE, String(count++));
+      mark.textContent = match[0];
+      fragment.appendChild(mark);
+      lastIndex = match.index + match[0].length;
+    }
+
+    if (lastIndex < text.length) {
+      fragment.appendChild(doc.createTextNode(text.slice(lastIndex)));
+    }
+    node.replaceWith(fragment);
+  });
+
+  return { html: root.innerHTML, count };
+}
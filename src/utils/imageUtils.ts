@@ -45,8 +45,8 @@ export function getSafeImageSrc(thumbnail?: string): string | null {
     return thumbnail;
   }
 
-  // Allow relative URLs (local images)
-  if (thumbnail.startsWith('/')) {
+  // Allow relative URLs (local images), but not protocol-relative ones like //example.com/a.png
+  if (/^\/(?![/\\])/.test(thumbnail)) {
     return thumbnail;
   }
 
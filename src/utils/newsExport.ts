@@ -0,0 +1,193 @@
+/**
+ * Export of feed articles to CSV, JSON and Markdown. Articles don't carry their publisher,
+ * so it is looked up from the link's domain against the publisher list.
+ */
+
+import { NewsItem, NewsListParams, Publisher, RequestOptions, listNews, listPublishers } from '@/utils/api';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+export interface ExportFormatOption {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatOption[] = [
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' }
+];
+
+export interface ExportRow {
+  title: string;
+  author: string;
+  publisher: string;
+  published_at: string;
+  status: string;
+  url: string;
+}
+
+const EXPORT_COLUMNS: (keyof ExportRow)[] = ['title', 'author', 'publisher', 'published_at', 'status', 'url'];
+
+const PAGE_SIZE = 100;
+// Keeps a runaway export from holding the whole archive in memory
+export const MAX_EXPORT_ITEMS = 5000;
+
+/**
+ * Fetch every page of the feed for the given filters, up to MAX_EXPORT_ITEMS
+ * @param onProgress - Called after each page with the number fetched so far and the total
+ * @returns The articles and whether the limit cut the export short
+ */
+export async function fetchAllNews(
+  params: Omit<NewsListParams, 'page' | 'size'>,
+  onProgress?: (loaded: number, total: number) => void
+): Promise<{ items: NewsItem[]; truncated: boolean }> {
+  const items: NewsItem[] = [];
+  let total = 0;
+
+  for (let page = 1; items.length < MAX_EXPORT_ITEMS; page++) {
+    const data = await listNews({ ...params, page, size: PAGE_SIZE });
+    items.push(...data.data);
+    total = data.pagination?.total ?? items.length;
+    onProgress?.(Math.min(items.length, total), total);
+
+    const totalPages = data.pagination?.total_pages ?? page;
+    if (page >= totalPages || data.data.length === 0) break;
+  }
+
+  return { items: items.slice(0, MAX_EXPORT_ITEMS), truncated: total > MAX_EXPORT_ITEMS };
+}
+
+/**
+ * Fetch every publisher, for naming the source of exported articles
+ */
+export async function fetchAllPublishers(options: RequestOptions = {}): Promise<Publisher[]> {
+  const publishers: Publisher[] = [];
+
+  for (let page = 1; ; page++) {
+    const data = await listPublishers({ page, size: PAGE_SIZE }, options);
+    publishers.push(...data.data);
+
+    const totalPages = data.pagination?.total_pages ?? page;
+    if (page >= totalPages || data.data.length === 0) break;
+  }
+
+  return publishers;
+}
+
+const stripWww = (host: string) => host.toLowerCase().replace(/^www\./, '');
+
+function hostOf(url?: string): string {
+  if (!url) return '';
+  try {
+    return stripWww(new URL(url).hostname);
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Build a lookup from article link to publisher name. Subdomains match their publisher's
+ * domain; links from unknown sites fall back to their host name.
+ */
+export function publisherResolver(publishers: Publisher[]): (url?: string) => string {
+  const byDomain = new Map(
+    publishers
+      .filter(publisher => publisher.domain)
+      .map(publisher => [stripWww(publisher.domain.replace(/^https?:\/\//, '').split('/')[0]), publisher.name])
+  );
+
+  return (url?: string) => {
+    const host = hostOf(url);
+    for (let candidate = host; candidate.includes('.'); candidate = candidate.slice(candidate.indexOf('.') + 1)) {
+      const name = byDomain.get(candidate);
+      if (name) return name;
+    }
+    return host;
+  };
+}
+
+export function toExportRows(items: NewsItem[], publisherFor: (url?: string) => string): ExportRow[] {
+  return items.map(item => ({
+    title: item.title,
+    author: item.author || '',
+    publisher: publisherFor(item.url),
+    published_at: item.published_at || '',
+    status: item.status,
+    url: item.url || ''
+  }));
+}
+
+function csvCell(value: string): string {
+  // Spreadsheets run cells that start like a formula; a leading quote keeps them as text
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+const markdownText = (value: string) => value.replace(/([\\[\]*_`])/g, '\\$1').replace(/\s+/g, ' ').trim();
+
+function formatMarkdownDate(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+function markdownLine(row: ExportRow): string {
+  const title = markdownText(row.title || 'Untitled');
+  const details = [
+    row.author && `by ${markdownText(row.author)}`,
+    row.publisher && markdownText(row.publisher),
+    row.published_at && formatMarkdownDate(row.published_at),
+    row.status
+  ].filter(Boolean).join(' · ');
+
+  return `- ${row.url ? `[${title}](<${row.url}>)` : title}${details ? ` — ${details}` : ''}`;
+}
+
+/**
+ * Serialize rows in the chosen format
+ */
+export function formatExport(rows: ExportRow[], format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return [
+        EXPORT_COLUMNS.join(','),
+        ...rows.map(row => EXPORT_COLUMNS.map(column => csvCell(row[column])).join(','))
+      ].join('\r\n') + '\r\n';
+    case 'json':
+      return JSON.stringify(rows, null, 2) + '\n';
+    case 'markdown':
+      return rows.map(markdownLine).join('\n') + '\n';
+  }
+}
+
+/**
+ * Save text as a file through a temporary download link
+ */
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * File name describing the exported slice, e.g. news-2026-03-01_2026-03-31-failed.csv
+ */
+export function exportFilename(params: { from?: string; to?: string; status?: string; category?: string }, extension: string): string {
+  const parts = [
+    'news',
+    (params.from || params.to) && `${params.from || 'start'}_${params.to || 'today'}`,
+    params.status,
+    params.category
+  ].filter(Boolean);
+
+  return `${parts.join('-')}.${extension}`;
+}
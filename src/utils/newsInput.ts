@@ -0,0 +1,141 @@
+/**
+ * Validation and parsing of news submissions, shared by the single and bulk modes of AddNewsModal
+ */
+
+import { ApiError, CreateNewsInput } from '@/utils/api';
+
+export interface NewsInputErrors {
+  url?: string;
+  category?: string;
+}
+
+export interface BulkNewsRow extends CreateNewsInput {
+  line: number;
+  errors: NewsInputErrors;
+}
+
+export const MAX_BULK_ROWS = 200;
+
+/**
+ * Validate a news submission
+ * @returns Field errors, empty when the input is valid
+ */
+export function validateNewsInput(input: CreateNewsInput): NewsInputErrors {
+  const errors: NewsInputErrors = {};
+
+  if (!input.url.trim()) {
+    errors.url = 'URL is required';
+  } else if (!/^https?:\/\/.+\..+/.test(input.url.trim())) {
+    errors.url = 'Please enter a valid URL (e.g., https://example.com/article)';
+  }
+
+  if (!input.category.trim()) {
+    errors.category = 'Category is required';
+  }
+
+  return errors;
+}
+
+// Split one CSV line, honouring double-quoted fields with embedded commas and "" escapes
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',' || char === '\t') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+
+  return fields;
+}
+
+/**
+ * Parse a pasted list or CSV file into submission rows.
+ * Each line is either `url` or `url,category`; an optional `url,category` header is skipped.
+ * Rows without a category get `defaultCategory`. Duplicate URLs within the input and rows past MAX_BULK_ROWS are flagged.
+ * @param text - Raw pasted text or file contents
+ * @param defaultCategory - Category used when a row has none
+ * @param allowedCategories - Slugs accepted in the category column; any value is accepted when omitted
+ */
+export function parseBulkNewsInput(text: string, defaultCategory: string, allowedCategories?: string[]): BulkNewsRow[] {
+  const rows: BulkNewsRow[] = [];
+  const seenUrls = new Set<string>();
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const [url = '', category = ''] = splitCsvLine(line);
+    if (rows.length === 0 && url.toLowerCase() === 'url') return; // Header row
+
+    const input = { url, category: category || defaultCategory };
+    // Rows past the limit are listed as errors rather than dropped, so it's clear they weren't imported
+    if (rows.length >= MAX_BULK_ROWS) {
+      rows.push({ ...input, line: index + 1, errors: { url: `Over the ${MAX_BULK_ROWS}-row limit; import it separately` } });
+      return;
+    }
+
+    const errors = validateNewsInput(input);
+    if (!errors.category && allowedCategories && !allowedCategories.includes(input.category)) {
+      errors.category = `Unknown category "${input.category}"`;
+    }
+    if (!errors.url && seenUrls.has(url)) {
+      errors.url = 'Duplicate of an earlier row';
+    }
+    seenUrls.add(url);
+
+    rows.push({ ...input, line: index + 1, errors });
+  });
+
+  return rows;
+}
+
+export type CreateNewsFailure = 'duplicate' | 'publisher_not_found' | 'url_too_long' | 'url_invalid';
+
+const failureMessages: Record<CreateNewsFailure, string> = {
+  duplicate: 'This news article already exists.',
+  publisher_not_found: 'The publisher domain is not existed. Try to add publisher first.',
+  url_too_long: 'The URL is too long. Please use a shorter URL.',
+  url_invalid: 'The URL format is invalid. Please enter a valid URL.',
+};
+
+/**
+ * Classify a known news creation failure
+ * @returns The failure kind, or null when the error should be handled generically
+ */
+export function classifyCreateNewsError(err: unknown): CreateNewsFailure | null {
+  if (!(err instanceof ApiError)) return null;
+
+  if (err.status === 409) return 'duplicate';
+  if (err.hasCode('CODE_PUBLISHER_NOT_FOUND')) return 'publisher_not_found';
+  if (err.hasCode('CODE_URL_TOO_LONG')) return 'url_too_long';
+  if (err.hasCode('CODE_URL_INVALID')) return 'url_invalid';
+  return null;
+}
+
+/**
+ * User-facing message for a known news creation failure
+ * @returns The message, or null when the error should be handled generically
+ */
+export function createNewsErrorMessage(err: unknown): string | null {
+  const failure = classifyCreateNewsError(err);
+  return failure ? failureMessages[failure] : null;
+}
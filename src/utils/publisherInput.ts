@@ -0,0 +1,51 @@
+/**
+ * Validation and error messages for publisher forms, shared by AddPublisherModal and the publisher detail page
+ */
+
+import { ApiError, UpdatePublisherInput } from '@/utils/api';
+
+export interface PublisherInputErrors {
+  name?: string;
+  domain?: string;
+  website?: string;
+}
+
+const DOMAIN_PATTERN = /^[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
+
+/**
+ * Validate a publisher submission
+ * @returns Field errors, empty when the input is valid
+ */
+export function validatePublisherInput(input: UpdatePublisherInput): PublisherInputErrors {
+  const errors: PublisherInputErrors = {};
+
+  if (!input.name.trim()) {
+    errors.name = 'Name is required';
+  }
+
+  if (!input.domain.trim()) {
+    errors.domain = 'Domain is required';
+  } else if (!DOMAIN_PATTERN.test(input.domain)) {
+    errors.domain = 'Please enter a valid domain (e.g., example.com)';
+  }
+
+  if (input.website?.trim() && !/^https?:\/\/.+\..+/.test(input.website.trim())) {
+    errors.website = 'Please enter a valid URL (e.g., https://example.com)';
+  }
+
+  return errors;
+}
+
+/**
+ * User-facing message for a known publisher create/update failure
+ * @returns The message, or null when the error should be handled generically
+ */
+export function publisherErrorMessage(err: unknown): string | null {
+  if (!(err instanceof ApiError)) return null;
+
+  if (err.status === 409) return 'A publisher with this name or domain already exists.';
+  if (err.hasCode('CODE_URL_INVALID')) return 'The domain format is invalid. Please enter a valid domain.';
+  if (err.hasCode('CODE_PUBLISHER_NOT_FOUND')) return 'The publisher was not found.';
+  if (err.hasCode('CODE_URL_TOO_LONG')) return 'The domain is too long. Please use a shorter domain.';
+  return null;
+}
@@ -0,0 +1,73 @@
+/**
+ * IndexedDB storage for the reading list. Saved articles keep their full content
+ * so they can be read while the backend is unreachable.
+ */
+
+import { NewsItem } from '@/utils/api';
+
+export interface ReadingListItem {
+  id: string;
+  article: NewsItem;
+  savedAt: number;
+  read: boolean;
+}
+
+const DB_NAME = 'news-portal';
+const DB_VERSION = 1;
+const STORE_NAME = 'reading-list';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user leaves private mode
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = operation(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * All saved articles, most recently saved first
+ */
+export async function getReadingList(): Promise<ReadingListItem[]> {
+  const items = await withStore<ReadingListItem[]>('readonly', store => store.getAll());
+  return items.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export async function getReadingListItem(id: string): Promise<ReadingListItem | undefined> {
+  return withStore<ReadingListItem | undefined>('readonly', store => store.get(id));
+}
+
+export async function putReadingListItem(item: ReadingListItem): Promise<void> {
+  await withStore('readwrite', store => store.put(item));
+}
+
+export async function deleteReadingListItem(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
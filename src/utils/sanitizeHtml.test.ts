@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { sanitizeHtml } from '@/utils/sanitizeHtml';
+
+const baseUrl = 'https://example.com/markets/article';
+const trustedImage = 'https://images.unsplash.com/photo.jpg';
+
+describe('sanitizeHtml', () => {
+  it('keeps allowed markup', () => {
+    expect(sanitizeHtml('<p>Shares <strong>rose</strong> <mark>3%</mark></p>'))
+      .toBe('<p>Shares <strong>rose</strong> <mark>3%</mark></p>');
+  });
+
+  it('removes script elements and their content', () => {
+    expect(sanitizeHtml('<p>Hi</p><script>alert(1)</script>')).toBe('<p>Hi</p>');
+    expect(sanitizeHtml('<SCRIPT SRC=https://evil.example/x.js></SCRIPT>ok')).toBe('ok');
+  });
+
+  it('removes event handler attributes', () => {
+    const html = sanitizeHtml(`<p onclick="alert(1)">a</p><img src="${trustedImage}" onerror="alert(1)">`);
+    expect(html).not.toMatch(/onclick|onerror|alert/);
+    expect(html).toContain(`src="${trustedImage}"`);
+  });
+
+  it('removes style elements and inline styles', () => {
+    const html = sanitizeHtml('<style>body{display:none}</style><p style="background:url(javascript:alert(1))">a</p>');
+    expect(html).toBe('<p>a</p>');
+  });
+
+  it('unlinks javascript: and data: hrefs', () => {
+    expect(sanitizeHtml('<a href="javascript:alert(1)">a</a>')).toBe('a');
+    expect(sanitizeHtml('<a href=" jav&#x09;ascript:alert(1)">b</a>')).toBe('b');
+    expect(sanitizeHtml('<a href="data:text/html,<script>alert(1)</script>">c</a>')).toBe('c');
+  });
+
+  it('makes safe links absolute and opens them in a new tab', () => {
+    const html = sanitizeHtml('<a href="/other">more</a>', { baseUrl });
+    expect(html).toBe('<a href="https://example.com/other" target="_blank" rel="noopener noreferrer nofollow">more</a>');
+  });
+
+  it('drops svg and math along with their content', () => {
+    expect(sanitizeHtml('<svg><script>alert(1)</script><a href="javascript:alert(1)">x</a></svg>ok')).toBe('ok');
+    expect(sanitizeHtml('<math><mtext><img src=x onerror=alert(1)></mtext></math>ok')).toBe('ok');
+    expect(sanitizeHtml('<svg onload="alert(1)"/>ok')).toBe('ok');
+  });
+
+  it('handles nested and malformed markup', () => {
+    expect(sanitizeHtml('<div><span><p>a<b>b</p></span></div>')).not.toMatch(/<(div|span)/);
+    expect(sanitizeHtml('<<script>script>alert(1)<</script>/script>')).not.toContain('<script');
+    expect(sanitizeHtml('<img src="x" onerror="alert(1)"')).not.toContain('onerror');
+    expect(sanitizeHtml('<noscript><p title="</noscript><img src=x onerror=alert(1)>"></noscript>'))
+      .not.toContain('onerror');
+  });
+
+  it('flattens markup nested deeper than the limit', () => {
+    const html = sanitizeHtml(`${'<b>'.repeat(200)}deep${'</b>'.repeat(200)}`);
+    expect(html).toContain('deep');
+    expect(html.match(/<b>/g)?.length).toBeLessThanOrEqual(64);
+  });
+
+  it('drops images from untrusted or protocol-relative sources', () => {
+    expect(sanitizeHtml('<img src="//evil.example/pixel.gif">', { baseUrl })).toBe('');
+    expect(sanitizeHtml('<img src="/\\evil.example/pixel.gif">', { baseUrl })).toBe('');
+    expect(sanitizeHtml('<img src="/local.png">', { baseUrl })).toBe('');
+    expect(sanitizeHtml('<img src="https://evil.example/pixel.gif">')).toBe('');
+    expect(sanitizeHtml('<img src="data:image/svg+xml,<svg onload=alert(1)>">')).toBe('');
+    expect(sanitizeHtml('<img src="javascript:alert(1)">')).toBe('');
+  });
+
+  it('keeps images from trusted domains, including protocol-relative ones', () => {
+    expect(sanitizeHtml('<img src="//images.unsplash.com/photo.jpg" alt="Chart">', { baseUrl }))
+      .toBe(`<img src="${trustedImage}" alt="Chart" loading="lazy" referrerpolicy="no-referrer">`);
+  });
+});
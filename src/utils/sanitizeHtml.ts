@@ -0,0 +1,195 @@
+/**
+ * Allowlist-based sanitizer for scraped article HTML.
+ * Scraped content comes from third-party sites, so anything not explicitly
+ * allowed below is removed before it reaches dangerouslySetInnerHTML.
+ */
+
+import { isTrustedImageDomain } from '@/utils/imageUtils';
+
+export interface SanitizeOptions {
+  // Article URL, used to resolve relative links
+  baseUrl?: string;
+}
+
+// Allowed elements and the attributes each may keep
+const ALLOWED_TAGS: Record<string, string[]> = {
+  p: [],
+  br: [],
+  hr: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  ul: [],
+  ol: ['start'],
+  li: [],
+  blockquote: [],
+  pre: [],
+  code: [],
+  strong: [],
+  b: [],
+  em: [],
+  i: [],
+  u: [],
+  s: [],
+  sub: [],
+  sup: [],
+  small: [],
+  mark: [],
+  figure: [],
+  figcaption: [],
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+};
+
+// Elements removed together with everything inside them; other unknown elements are unwrapped
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'iframe', 'frame', 'frameset', 'object', 'embed',
+  'applet', 'svg', 'math', 'form', 'input', 'textarea', 'select', 'option', 'button',
+  'head', 'title', 'meta', 'link', 'base', 'audio', 'video', 'source', 'track', 'canvas',
+]);
+
+const SAFE_LINK_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+const SAFE_IMAGE_PROTOCOLS = new Set(['http:', 'https:']);
+
+// Deeper nesting is flattened to text so hostile input can't exhaust the stack
+const MAX_DEPTH = 64;
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Resolve a link target and keep it only if it uses a safe protocol
+ * @returns The absolute URL, or null for javascript:, data: and malformed links
+ */
+function safeLinkHref(href: string, baseUrl?: string): string | null {
+  // The URL parser drops tabs and newlines like browsers do, so "java\tscript:" is caught below
+  const cleaned = href.trim();
+  if (!cleaned || cleaned.startsWith('#')) return null;
+
+  try {
+    const url = baseUrl ? new URL(cleaned, baseUrl) : new URL(cleaned);
+    return SAFE_LINK_PROTOCOLS.has(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve an image source against the article URL and keep it only if it is served over
+ * http(s) from a trusted domain
+ * @returns The absolute URL, or null for protocol-relative hosts, data: URLs and untrusted domains
+ */
+function safeImageSrc(src: string, baseUrl?: string): string | null {
+  const cleaned = src.trim();
+  if (!cleaned) return null;
+
+  try {
+    const url = baseUrl ? new URL(cleaned, baseUrl) : new URL(cleaned);
+    return SAFE_IMAGE_PROTOCOLS.has(url.protocol) && isTrustedImageDomain(url.href) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function sanitizeAttributes(source: Element, target: Element, tag: string, options: SanitizeOptions): boolean {
+  for (const name of ALLOWED_TAGS[tag]) {
+    const value = source.getAttribute(name);
+    if (value === null) continue;
+
+    if (name === 'href') {
+      const href = safeLinkHref(value, options.baseUrl);
+      if (href) target.setAttribute('href', href);
+    } else if (name === 'src') {
+      const src = safeImageSrc(value, options.baseUrl);
+      if (!src) return false; // Images from untrusted domains are dropped entirely
+      target.setAttribute('src', src);
+    } else if (name === 'width' || name === 'height' || name === 'start') {
+      if (/^\d{1,4}$/.test(value.trim())) target.setAttribute(name, value.trim());
+    } else {
+      target.setAttribute(name, value);
+    }
+  }
+
+  if (tag === 'img') {
+    if (!target.hasAttribute('src')) return false;
+    target.setAttribute('loading', 'lazy');
+    target.setAttribute('referrerpolicy', 'no-referrer');
+  }
+
+  if (tag === 'a' && target.hasAttribute('href')) {
+    // Open outside the app without giving the target page a handle on this window
+    target.setAttribute('target', '_blank');
+    target.setAttribute('rel', 'noopener noreferrer nofollow');
+  }
+
+  return true;
+}
+
+function copyChildren(source: Node, target: Node, doc: Document, options: SanitizeOptions, depth: number) {
+  source.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      target.appendChild(doc.createTextNode(child.textContent || ''));
+      return;
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) return; // Comments, processing instructions
+
+    const element = child as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAGS.has(tag)) return;
+
+    if (depth >= MAX_DEPTH) {
+      target.appendChild(doc.createTextNode(element.textContent || ''));
+      return;
+    }
+
+    if (!(tag in ALLOWED_TAGS)) {
+      copyChildren(element, target, doc, options, depth + 1);
+      return;
+    }
+
+    const clean = doc.createElement(tag);
+    if (!sanitizeAttributes(element, clean, tag, options)) return;
+
+    // A link whose target was unsafe keeps its text but stops being a link
+    if (tag === 'a' && !clean.hasAttribute('href')) {
+      copyChildren(element, target, doc, options, depth + 1);
+      return;
+    }
+
+    copyChildren(element, clean, doc, options, depth + 1);
+    target.appendChild(clean);
+  });
+}
+
+/**
+ * Sanitize scraped article HTML against the allowlist.
+ * Scripts, event handlers, inline styles and unknown attributes are removed, unknown
+ * elements are unwrapped, links are made absolute and open in a new tab, and images
+ * are kept only when served from a trusted domain.
+ * @param html - Untrusted HTML
+ * @returns HTML safe to pass to dangerouslySetInnerHTML
+ */
+export function sanitizeHtml(html: string, options: SanitizeOptions = {}): string {
+  if (!html) return '';
+
+  // Without a DOM (server render) fall back to showing the markup as plain text
+  if (typeof DOMParser === 'undefined') {
+    return escapeHtml(html);
+  }
+
+  // DOMParser documents are inert: scripts don't run and images don't load while parsing
+  const source = new DOMParser().parseFromString(html, 'text/html');
+  const output = document.implementation.createHTMLDocument('');
+  const container = output.createElement('div');
+
+  copyChildren(source.body, container, output, options, 0);
+  return container.innerHTML;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { ObjectSchema, ValidationError, parseDetail, parseList, parseObject, parseStringList } from '@/utils/schema';
+
+const itemSchema: ObjectSchema = {
+  id: { type: 'string' },
+  score: { type: 'number', optional: true },
+  archived: { type: 'boolean', optional: true },
+};
+
+const paginationSchema: ObjectSchema = {
+  page: { type: 'number' },
+  total: { type: 'number' },
+};
+
+describe('parseObject', () => {
+  it('keeps schema fields and drops unknown ones', () => {
+    expect(parseObject({ id: 'a', score: 0.5, extra: 'x' }, itemSchema, 'item'))
+      .toEqual({ value: { id: 'a', score: 0.5 }, issues: [] });
+  });
+
+  it('treats null on optional fields as absent', () => {
+    expect(parseObject({ id: 'a', score: null, archived: null }, itemSchema, 'item'))
+      .toEqual({ value: { id: 'a' }, issues: [] });
+  });
+
+  it('reports missing required fields, including null ones', () => {
+    expect(parseObject({}, itemSchema, 'item').issues).toEqual([
+      { path: 'item.id', message: 'required string is missing' },
+    ]);
+    expect(parseObject({ id: null }, itemSchema, 'item').value).toBeUndefined();
+  });
+
+  it('reports every field with the wrong type', () => {
+    expect(parseObject({ id: 1, score: '0.5', archived: 'yes' }, itemSchema, 'item').issues).toEqual([
+      { path: 'item.id', message: 'expected string, got number' },
+      { path: 'item.score', message: 'expected number, got string' },
+      { path: 'item.archived', message: 'expected boolean, got string' },
+    ]);
+  });
+
+  it('rejects numbers that are not finite', () => {
+    expect(parseObject({ id: 'a', score: NaN }, itemSchema, 'item').value).toBeUndefined();
+    expect(parseObject({ id: 'a', score: Infinity }, itemSchema, 'item').value).toBeUndefined();
+  });
+
+  it('rejects values that are not plain objects', () => {
+    expect(parseObject(null, itemSchema, 'item').issues).toEqual([{ path: 'item', message: 'expected object, got null' }]);
+    expect(parseObject([], itemSchema, 'item').issues).toEqual([{ path: 'item', message: 'expected object, got array' }]);
+  });
+});
+
+describe('parseDetail', () => {
+  it('returns the validated data object', () => {
+    expect(parseDetail({ data: { id: 'a', extra: true } }, itemSchema)).toEqual({ id: 'a' });
+  });
+
+  it('throws a ValidationError listing the issues', () => {
+    expect(() => parseDetail({ data: { id: 1 } }, itemSchema)).toThrow(ValidationError);
+    expect(() => parseDetail({ data: { id: 1 } }, itemSchema))
+      .toThrow('Invalid response from server: data.id: expected string, got number');
+    expect(() => parseDetail('oops', itemSchema)).toThrow('response: expected object, got string');
+  });
+});
+
+describe('parseList', () => {
+  it('reads an empty list from null or missing data', () => {
+    expect(parseList({ data: null }, itemSchema, paginationSchema))
+      .toEqual({ data: [], pagination: undefined, invalid: [], issues: [] });
+    expect(parseList({}, itemSchema, paginationSchema).data).toEqual([]);
+  });
+
+  it('throws when the body or data is unusable', () => {
+    expect(() => parseList(null, itemSchema, paginationSchema)).toThrow(ValidationError);
+    expect(() => parseList({ data: {} }, itemSchema, paginationSchema)).toThrow('data: expected array, got object');
+  });
+
+  it('leaves invalid items out and reports them with their index and id', () => {
+    const result = parseList({ data: [{ id: 'a' }, { id: 'b', score: 'high' }, 42] }, itemSchema, paginationSchema);
+    expect(result.data).toEqual([{ id: 'a' }]);
+    expect(result.invalid).toEqual([
+      { index: 1, id: 'b', issues: [{ path: 'data[1].score', message: 'expected number, got string' }] },
+      { index: 2, id: undefined, issues: [{ path: 'data[2]', message: 'expected object, got number' }] },
+    ]);
+  });
+
+  it('keeps valid pagination and drops an invalid one into issues', () => {
+    expect(parseList({ data: [], pagination: { page: 1, total: 3 } }, itemSchema, paginationSchema).pagination)
+      .toEqual({ page: 1, total: 3 });
+
+    const result = parseList({ data: [], pagination: { page: 1 } }, itemSchema, paginationSchema);
+    expect(result.pagination).toBeUndefined();
+    expect(result.issues).toEqual([{ path: 'pagination.total', message: 'required number is missing' }]);
+  });
+});
+
+describe('parseStringList', () => {
+  it('keeps only string entries', () => {
+    expect(parseStringList({ data: ['a', 1, null, 'b'] })).toEqual(['a', 'b']);
+  });
+
+  it('returns an empty list for malformed bodies', () => {
+    expect(parseStringList(null)).toEqual([]);
+    expect(parseStringList({ data: 'a' })).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Runtime validation of backend responses.
+ * The backend is a separate Go service, so every response is checked field by field
+ * before it reaches the UI instead of being cast straight to its TypeScript type.
+ */
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * An item of a list response that failed validation and was left out of `data`
+ */
+export interface InvalidItem {
+  index: number;
+  id?: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Thrown when a response is unusable as a whole (not an object, `data` missing, detail object invalid)
+ */
+export class ValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid response from server: ${formatIssues(issues)}`);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+type FieldType = 'string' | 'number' | 'boolean';
+
+interface FieldSpec {
+  type: FieldType;
+  optional?: boolean;
+}
+
+export type ObjectSchema = Record<string, FieldSpec>;
+
+type ParseResult<T> = { value: T; issues: [] } | { value?: undefined; issues: ValidationIssue[] };
+
+/**
+ * Format issues as "path: message" pairs for logs and error messages
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a plain object against a schema.
+ * Unknown fields are dropped, and `null` on optional fields is treated as absent (Go zero values).
+ * @param value - The value to validate
+ * @param schema - Expected fields and their types
+ * @param path - Path prefix used in issue reports
+ */
+export function parseObject<T>(value: unknown, schema: ObjectSchema, path: string): ParseResult<T> {
+  if (!isRecord(value)) {
+    return { issues: [{ path, message: `expected object, got ${describe(value)}` }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const result: Record<string, unknown> = {};
+
+  for (const [key, spec] of Object.entries(schema)) {
+    const fieldValue = value[key];
+    const fieldPath = `${path}.${key}`;
+
+    if (fieldValue === undefined || fieldValue === null) {
+      if (!spec.optional) {
+        issues.push({ path: fieldPath, message: `required ${spec.type} is missing` });
+      }
+      continue;
+    }
+
+    if (typeof fieldValue !== spec.type || (spec.type === 'number' && !Number.isFinite(fieldValue))) {
+      issues.push({ path: fieldPath, message: `expected ${spec.type}, got ${describe(fieldValue)}` });
+      continue;
+    }
+
+    result[key] = fieldValue;
+  }
+
+  if (issues.length > 0) {
+    return { issues };
+  }
+  return { value: result as T, issues: [] };
+}
+
+/**
+ * Validate a `{ data: T }` detail response
+ * @throws ValidationError when the body or the detail object is invalid
+ */
+export function parseDetail<T>(body: unknown, schema: ObjectSchema): T {
+  if (!isRecord(body)) {
+    throw new ValidationError([{ path: 'response', message: `expected object, got ${describe(body)}` }]);
+  }
+
+  const parsed = parseObject<T>(body.data, schema, 'data');
+  if (parsed.value === undefined) {
+    throw new ValidationError(parsed.issues);
+  }
+  return parsed.value;
+}
+
+/**
+ * Validate a `{ data: T[], pagination? }` list response.
+ * Invalid items are reported in `invalid` instead of failing the whole list,
+ * and an invalid pagination block is dropped rather than trusted.
+ * @throws ValidationError when the body itself or the `data` array is unusable
+ */
+export function parseList<T, P>(
+  body: unknown,
+  itemSchema: ObjectSchema,
+  paginationSchema: ObjectSchema
+): { data: T[]; pagination?: P; invalid: InvalidItem[]; issues: ValidationIssue[] } {
+  if (!isRecord(body)) {
+    throw new ValidationError([{ path: 'response', message: `expected object, got ${describe(body)}` }]);
+  }
+
+  // Go encodes an empty slice as null
+  const rawData = body.data === null || body.data === undefined ? [] : body.data;
+  if (!Array.isArray(rawData)) {
+    throw new ValidationError([{ path: 'data', message: `expected array, got ${describe(rawData)}` }]);
+  }
+
+  const data: T[] = [];
+  const invalid: InvalidItem[] = [];
+  rawData.forEach((item, index) => {
+    const parsed = parseObject<T>(item, itemSchema, `data[${index}]`);
+    if (parsed.value !== undefined) {
+      data.push(parsed.value);
+    } else {
+      const id = isRecord(item) && typeof item.id === 'string' ? item.id : undefined;
+      invalid.push({ index, id, issues: parsed.issues });
+    }
+  });
+
+  const issues: ValidationIssue[] = [];
+  let pagination: P | undefined;
+  if (body.pagination !== undefined && body.pagination !== null) {
+    const parsed = parseObject<P>(body.pagination, paginationSchema, 'pagination');
+    if (parsed.value !== undefined) {
+      pagination = parsed.value;
+    } else {
+      issues.push(...parsed.issues);
+    }
+  }
+
+  return { data, pagination, invalid, issues };
+}
+
+/**
+ * Validate a `{ data: string[] }` response, dropping non-string entries
+ */
+export function parseStringList(body: unknown): string[] {
+  if (!isRecord(body) || !Array.isArray(body.data)) {
+    return [];
+  }
+  return body.data.filter((entry): entry is string => typeof entry === 'string');
+}
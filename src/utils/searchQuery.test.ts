@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { parseSearchQuery, tokenizeSearchQuery } from '@/utils/searchQuery';
+
+describe('tokenizeSearchQuery', () => {
+  it('splits terms, phrases, exclusions and qualifiers with their offsets', () => {
+    const input = 'oil "interest rate" -crypto status:synced';
+    expect(tokenizeSearchQuery(input)).toEqual([
+      { kind: 'term', start: 0, end: 3, value: 'oil' },
+      { kind: 'phrase', start: 4, end: 19, value: 'interest rate' },
+      { kind: 'exclude', start: 20, end: 27, value: 'crypto' },
+      { kind: 'qualifier', start: 28, end: 41, value: 'synced', qualifier: 'status', error: undefined },
+    ]);
+  });
+
+  it('offsets cover the token text in the input', () => {
+    const input = '  author:"Jane  Doe"   -"bear market"';
+    tokenizeSearchQuery(input).forEach(token => {
+      expect(input.slice(token.start, token.end).trim()).toBe(input.slice(token.start, token.end));
+    });
+    expect(tokenizeSearchQuery(input).map(token => [token.start, token.end])).toEqual([[2, 20], [23, 37]]);
+  });
+
+  it('collapses whitespace inside quoted values', () => {
+    expect(tokenizeSearchQuery('author:"Jane  Doe"')[0].value).toBe('Jane Doe');
+  });
+
+  it('runs an unterminated quote to the end of the input', () => {
+    expect(tokenizeSearchQuery('oil "interest rate')).toEqual([
+      { kind: 'term', start: 0, end: 3, value: 'oil' },
+      { kind: 'phrase', start: 4, end: 18, value: 'interest rate' },
+    ]);
+  });
+
+  it('treats a lone dash as a term', () => {
+    expect(tokenizeSearchQuery('a - b').map(token => token.kind)).toEqual(['term', 'term', 'term']);
+  });
+
+  it('reads unknown qualifiers as plain terms', () => {
+    expect(tokenizeSearchQuery('source:reuters')).toEqual([
+      { kind: 'term', start: 0, end: 14, value: 'source:reuters' },
+    ]);
+  });
+
+  it('matches qualifiers case-insensitively', () => {
+    expect(tokenizeSearchQuery('STATUS:Synced')[0]).toMatchObject({ qualifier: 'status', value: 'Synced', error: undefined });
+  });
+
+  it('flags excluded qualifiers', () => {
+    expect(tokenizeSearchQuery('-author:smith')[0]).toMatchObject({
+      kind: 'qualifier',
+      start: 0,
+      end: 13,
+      error: '-author: exclusion is not supported',
+    });
+  });
+
+  it('flags qualifiers without a value or with an invalid one', () => {
+    expect(tokenizeSearchQuery('author:')[0].error).toBe('author: needs a value');
+    expect(tokenizeSearchQuery('status:pending')[0].error).toBe('status: must be one of added, synced, failed');
+    expect(tokenizeSearchQuery('ticker:not-a-symbol')[0].error).toBe('ticker: expects a symbol like AAPL');
+  });
+
+  it('validates dates, including ones that do not exist', () => {
+    expect(tokenizeSearchQuery('after:2024-02-29')[0].error).toBeUndefined();
+    expect(tokenizeSearchQuery('after:2024-02-30')[0].error).toBe('after: expects a date like 2024-01-31');
+    expect(tokenizeSearchQuery('before:2023-02-29')[0].error).toBe('before: expects a date like 2024-01-31');
+    expect(tokenizeSearchQuery('before:2024-1-5')[0].error).toBe('before: expects a date like 2024-01-31');
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('builds search params from the tokens', () => {
+    expect(parseSearchQuery('oil "interest rate" -crypto -"bear market" author:"Jane Doe" status:SYNCED ticker:$aapl after:2024-01-01 before:2024-06-30'))
+      .toEqual({
+        keywords: ['oil'],
+        phrases: ['interest rate'],
+        exclude: ['crypto', 'bear market'],
+        author: 'Jane Doe',
+        status: 'synced',
+        ticker: 'AAPL',
+        from: '2024-01-01',
+        to: '2024-06-30',
+        errors: [],
+      });
+  });
+
+  it('skips empty phrases', () => {
+    expect(parseSearchQuery('"" oil')).toMatchObject({ keywords: ['oil'], phrases: [], errors: [] });
+  });
+
+  it('reports invalid qualifiers and leaves them out', () => {
+    const parsed = parseSearchQuery('oil after:2024-02-30 -status:failed');
+    expect(parsed.from).toBeUndefined();
+    expect(parsed.status).toBeUndefined();
+    expect(parsed.errors).toEqual([
+      'after: expects a date like 2024-01-31',
+      '-status: exclusion is not supported',
+    ]);
+  });
+
+  it('rejects after: later than before:', () => {
+    expect(parseSearchQuery('after:2024-06-01 before:2024-01-01').errors).toEqual(['after: must not be later than before:']);
+    expect(parseSearchQuery('after:2024-01-01 before:2024-01-01').errors).toEqual([]);
+  });
+
+  it('lets the last repeated qualifier win', () => {
+    const parsed = parseSearchQuery('status:added category:tech status:failed category:finance');
+    expect(parsed.status).toBe('failed');
+    expect(parsed.category).toBe('finance');
+  });
+});
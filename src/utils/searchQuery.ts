@@ -0,0 +1,285 @@
+/**
+ * Parser for the SearchModal query syntax:
+ *   words, "quoted phrases", -exclusions and field qualifiers
+ *   (author:, publisher:, status:, category:, ticker:, before:, after:)
+ * Tokens keep their positions so the input can be syntax highlighted.
+ */
+
+import { FEED_STATUSES, FeedFilters } from '@/utils/feedFilters';
+import { normalizeTicker } from '@/utils/tickers';
+
+export const SEARCH_QUALIFIERS = ['author', 'publisher', 'status', 'category', 'ticker', 'before', 'after'] as const;
+
+export type SearchQualifier = typeof SEARCH_QUALIFIERS[number];
+
+export type SearchTokenKind = 'term' | 'phrase' | 'exclude' | 'qualifier';
+
+export interface SearchToken {
+  kind: SearchTokenKind;
+  start: number;
+  end: number;
+  value: string;
+  qualifier?: SearchQualifier;
+  // Set when the token is recognized but can't be used, e.g. `status:unknown`
+  error?: string;
+}
+
+export interface ParsedSearchQuery {
+  keywords: string[];
+  phrases: string[];
+  exclude: string[];
+  author?: string;
+  publisher?: string;
+  status?: string;
+  category?: string;
+  ticker?: string; // Not sent to the API; results are narrowed client-side
+  from?: string; // YYYY-MM-DD, from `after:`
+  to?: string; // YYYY-MM-DD, from `before:`
+  errors: string[];
+}
+
+// Filter controls shown next to the query; empty strings mean unset
+export type SearchFilters = Pick<FeedFilters, 'from' | 'to' | 'status' | 'category' | 'ticker'>;
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = { from: '', to: '', status: '', category: '', ticker: '' };
+
+export interface SearchOperator {
+  syntax: string;
+  description: string;
+  example: string;
+}
+
+export const SEARCH_OPERATORS: SearchOperator[] = [
+  { syntax: 'word', description: 'Articles containing the word', example: 'inflation' },
+  { syntax: '"phrase"', description: 'Articles containing the exact phrase', example: '"interest rate"' },
+  { syntax: '-word', description: 'Exclude articles containing the word or "phrase"', example: '-crypto' },
+  { syntax: 'author:', description: 'Written by the author', example: 'author:"Jane Doe"' },
+  { syntax: 'publisher:', description: 'From the publisher (name or domain)', example: 'publisher:reuters.com' },
+  { syntax: 'status:', description: `Sync status (${FEED_STATUSES.join(', ')})`, example: 'status:synced' },
+  { syntax: 'category:', description: 'In the category (slug)', example: 'category:finance' },
+  { syntax: 'ticker:', description: 'Mentions the ticker symbol or its company', example: 'ticker:AAPL' },
+  { syntax: 'after:', description: 'Published on or after the date', example: 'after:2024-01-01' },
+  { syntax: 'before:', description: 'Published on or before the date', example: 'before:2024-06-30' },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const QUALIFIER_PATTERN = /^([a-zA-Z]+):/;
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function qualifierError(qualifier: SearchQualifier, value: string): string | undefined {
+  if (!value) return `${qualifier}: needs a value`;
+
+  switch (qualifier) {
+    case 'status':
+      return FEED_STATUSES.includes(value.toLowerCase())
+        ? undefined
+        : `status: must be one of ${FEED_STATUSES.join(', ')}`;
+    case 'ticker':
+      return normalizeTicker(value) ? undefined : 'ticker: expects a symbol like AAPL';
+    case 'before':
+    case 'after':
+      return isValidDate(value) ? undefined : `${qualifier}: expects a date like 2024-01-31`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Split a query into tokens with their positions in the input
+ */
+export function tokenizeSearchQuery(input: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    const negated = input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1]);
+    if (negated) i++;
+
+    let qualifier: SearchQualifier | undefined;
+    const qualifierMatch = QUALIFIER_PATTERN.exec(input.slice(i));
+    if (qualifierMatch && (SEARCH_QUALIFIERS as readonly string[]).includes(qualifierMatch[1].toLowerCase())) {
+      qualifier = qualifierMatch[1].toLowerCase() as SearchQualifier;
+      i += qualifierMatch[0].length;
+    }
+
+    let value: string;
+    let quoted = false;
+    if (input[i] === '"') {
+      quoted = true;
+      const close = input.indexOf('"', i + 1);
+      const end = close === -1 ? input.length : close; // Unterminated quotes run to the end
+      value = input.slice(i + 1, end);
+      i = close === -1 ? input.length : close + 1;
+    } else {
+      const valueStart = i;
+      while (i < input.length && !/\s/.test(input[i])) i++;
+      value = input.slice(valueStart, i);
+    }
+    value = value.trim().replace(/\s+/g, ' ');
+
+    if (qualifier) {
+      tokens.push({
+        kind: 'qualifier',
+        start,
+        end: i,
+        value,
+        qualifier,
+        error: negated ? `-${qualifier}: exclusion is not supported` : qualifierError(qualifier, value)
+      });
+    } else if (negated) {
+      tokens.push({ kind: 'exclude', start, end: i, value });
+    } else {
+      tokens.push({ kind: quoted ? 'phrase' : 'term', start, end: i, value });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a query into structured search params. Invalid qualifiers are reported in
+ * `errors` and left out; when a qualifier repeats, the last one wins.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = { keywords: [], phrases: [], exclude: [], errors: [] };
+
+  tokenizeSearchQuery(input).forEach(token => {
+    if (!token.value && token.kind !== 'qualifier') return;
+
+    if (token.error) {
+      parsed.errors.push(token.error);
+      return;
+    }
+
+    switch (token.kind) {
+      case 'term':
+        parsed.keywords.push(token.value);
+        break;
+      case 'phrase':
+        parsed.phrases.push(token.value);
+        break;
+      case 'exclude':
+        parsed.exclude.push(token.value);
+        break;
+      case 'qualifier':
+        if (token.qualifier === 'after') {
+          parsed.from = token.value;
+        } else if (token.qualifier === 'before') {
+          parsed.to = token.value;
+        } else if (token.qualifier === 'status') {
+          parsed.status = token.value.toLowerCase();
+        } else if (token.qualifier === 'ticker') {
+          parsed.ticker = normalizeTicker(token.value);
+        } else if (token.qualifier) {
+          parsed[token.qualifier] = token.value;
+        }
+        break;
+    }
+  });
+
+  if (parsed.from && parsed.to && parsed.from > parsed.to) {
+    parsed.errors.push('after: must not be later than before:');
+  }
+
+  return parsed;
+}
+
+/**
+ * Whether the query narrows the search down; exclusions alone don't
+ */
+export function hasSearchCriteria(parsed: ParsedSearchQuery): boolean {
+  return Boolean(
+    parsed.keywords.length ||
+    parsed.phrases.length ||
+    parsed.author ||
+    parsed.publisher ||
+    parsed.status ||
+    parsed.category ||
+    parsed.ticker ||
+    parsed.from ||
+    parsed.to
+  );
+}
+
+/**
+ * Combine a parsed query with the filter controls; qualifiers typed in the query take precedence
+ */
+export function withSearchFilters(parsed: ParsedSearchQuery, filters: SearchFilters): ParsedSearchQuery {
+  return {
+    ...parsed,
+    from: parsed.from || filters.from || undefined,
+    to: parsed.to || filters.to || undefined,
+    status: parsed.status || filters.status || undefined,
+    category: parsed.category || filters.category || undefined,
+    ticker: parsed.ticker || filters.ticker || undefined
+  };
+}
+
+/**
+ * The API doesn't know about tickers, so a ticker on its own searches for the company name;
+ * callers narrow the results to articles mentioning the ticker themselves
+ * @param tickerName - Company name for a symbol
+ */
+export function withTickerFallback(parsed: ParsedSearchQuery, tickerName: (symbol: string) => string): ParsedSearchQuery {
+  if (!parsed.ticker || hasSearchCriteria({ ...parsed, ticker: undefined })) {
+    return parsed;
+  }
+  return { ...parsed, phrases: [tickerName(parsed.ticker)] };
+}
+
+/**
+ * Query string for opening an article with the searched words and phrases highlighted;
+ * exclusions and qualifiers don't appear in the text
+ */
+export function buildHighlightParams(input: string): URLSearchParams {
+  const { keywords, phrases } = parseSearchQuery(input);
+  const params = new URLSearchParams();
+  [...keywords, ...phrases].forEach(keyword => params.append('highlight_keywords', keyword));
+  return params;
+}
+
+/**
+ * Read filters restored from storage, ignoring unknown or malformed fields
+ */
+export function readSearchFilters(value: unknown): SearchFilters {
+  const filters = { ...EMPTY_SEARCH_FILTERS };
+  if (value && typeof value === 'object') {
+    (Object.keys(filters) as (keyof SearchFilters)[]).forEach(key => {
+      const field = (value as Record<string, unknown>)[key];
+      if (typeof field === 'string') filters[key] = field;
+    });
+  }
+  return filters;
+}
+
+/**
+ * Short labels for the active filter controls, e.g. for listing saved searches
+ * @param categoryLabel - Display name for a category slug
+ */
+export function describeSearchFilters(filters: SearchFilters, categoryLabel: (slug: string) => string = slug => slug): string[] {
+  const parts: string[] = [];
+
+  if (filters.from && filters.to) {
+    parts.push(`${filters.from} to ${filters.to}`);
+  } else if (filters.from) {
+    parts.push(`from ${filters.from}`);
+  } else if (filters.to) {
+    parts.push(`to ${filters.to}`);
+  }
+  if (filters.status) parts.push(filters.status);
+  if (filters.category) parts.push(categoryLabel(filters.category));
+  if (filters.ticker) parts.push(`$${filters.ticker}`);
+
+  return parts;
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { scoreSentiment } from '@/utils/sentiment';
+
+describe('scoreSentiment', () => {
+  it('scores lexicon words', () => {
+    expect(scoreSentiment('Shares surged').label).toBe('positive');
+    expect(scoreSentiment('Shares plunged').label).toBe('negative');
+  });
+
+  it('flips words after a negation', () => {
+    expect(scoreSentiment('Results did not beat estimates').score).toBeLessThan(0);
+  });
+
+  it('ignores words that name Object.prototype members', () => {
+    const result = scoreSentiment('Shares surged', 'The constructor said profits rose; toString valueOf __proto__');
+    expect(Number.isFinite(result.score)).toBe(true);
+    expect(result.label).toBe('positive');
+  });
+});
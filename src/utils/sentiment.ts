@@ -0,0 +1,104 @@
+/**
+ * Article sentiment. Scores come from the backend when it provides `sentiment_score`;
+ * until then they are computed offline from a small finance-tuned lexicon over title and content.
+ */
+
+import { NewsItem } from '@/utils/api';
+
+export type SentimentLabel = 'positive' | 'negative' | 'neutral';
+
+export const SENTIMENT_LABELS: SentimentLabel[] = ['positive', 'negative', 'neutral'];
+
+export interface SentimentResult {
+  label: SentimentLabel;
+  score: number; // -1 (most negative) to 1 (most positive)
+  source: 'backend' | 'lexicon';
+}
+
+// Scores closer to zero than this are neutral
+const NEUTRAL_THRESHOLD = 0.15;
+// Headlines carry the gist of the story, so their words count more
+const TITLE_WEIGHT = 2;
+// Normalizes the summed weights into -1..1; higher means more words are needed for a strong score
+const NORMALIZATION_ALPHA = 15;
+// A negation flips the sentiment of terms this many words after it
+const NEGATION_WINDOW = 3;
+
+// Word weights; financial meanings take precedence over everyday ones ("liability" is neutral, "beat" is positive).
+// A Map, so tokens like "constructor" don't pick up Object.prototype members
+const LEXICON = new Map<string, number>(Object.entries({
+  // Positive
+  beat: 2, beats: 2, outperform: 2, outperformed: 2, surge: 2, surged: 2, soar: 2, soared: 2, rally: 2, rallied: 2,
+  record: 1, growth: 1, grow: 1, grew: 1, gain: 1, gains: 1, gained: 1, profit: 1, profitable: 2, profits: 1,
+  upgrade: 2, upgraded: 2, bullish: 2, rebound: 1, rebounded: 1, recovery: 1, strong: 1, stronger: 1, robust: 1,
+  exceed: 2, exceeded: 2, exceeds: 2, dividend: 1, buyback: 1, expansion: 1, expand: 1, improve: 1, improved: 1,
+  optimistic: 2, optimism: 2, upbeat: 2, boost: 1, boosted: 1, rise: 1, rises: 1, rose: 1, higher: 1, jump: 1, jumped: 1,
+  approval: 1, approved: 1, breakthrough: 2, innovative: 1, success: 1, successful: 1, win: 1, won: 1,
+  // Negative
+  miss: -2, missed: -2, misses: -2, underperform: -2, underperformed: -2, plunge: -2, plunged: -2, tumble: -2, tumbled: -2,
+  slump: -2, slumped: -2, crash: -3, crashed: -3, loss: -1, losses: -1, lost: -1, decline: -1, declined: -1, declines: -1,
+  downgrade: -2, downgraded: -2, bearish: -2, recession: -2, layoffs: -2, layoff: -2, bankruptcy: -3, bankrupt: -3,
+  default: -2, defaulted: -2, lawsuit: -1, litigation: -1, fraud: -3, investigation: -1, probe: -1, fined: -2,
+  weak: -1, weaker: -1, weakness: -1, fall: -1, falls: -1, fell: -1, drop: -1, dropped: -1, lower: -1, cut: -1, cuts: -1,
+  warning: -2, warns: -2, warned: -2, volatile: -1, volatility: -1, uncertainty: -1, concern: -1, concerns: -1,
+  risk: -1, risks: -1, inflation: -1, debt: -1, shortfall: -2, writedown: -2, impairment: -2, 'sell-off': -2, selloff: -2,
+  pessimistic: -2, pessimism: -2, downturn: -2, slowdown: -1, delay: -1, delayed: -1, recall: -2, shutdown: -2,
+}));
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'without', 'neither', 'nor', "isn't", "wasn't", "didn't", "don't", "doesn't", "won't", "can't"]);
+
+function tokenize(text: string): string[] {
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&[a-z]+;|&#\d+;/gi, ' ')
+    .toLowerCase()
+    .match(/[a-z][a-z'-]*/g) || [];
+}
+
+function weighText(text: string): number {
+  let sum = 0;
+  let negatedUntil = -1;
+
+  tokenize(text).forEach((token, index) => {
+    if (NEGATIONS.has(token)) {
+      negatedUntil = index + NEGATION_WINDOW;
+      return;
+    }
+
+    const weight = LEXICON.get(token);
+    if (weight === undefined) return;
+
+    sum += index <= negatedUntil ? -weight : weight;
+  });
+
+  return sum;
+}
+
+function labelFor(score: number): SentimentLabel {
+  if (score >= NEUTRAL_THRESHOLD) return 'positive';
+  if (score <= -NEUTRAL_THRESHOLD) return 'negative';
+  return 'neutral';
+}
+
+/**
+ * Score text with the lexicon
+ * @param title - Weighted higher than the content
+ * @param content - Plain text or HTML
+ */
+export function scoreSentiment(title: string, content = ''): SentimentResult {
+  const sum = weighText(title) * TITLE_WEIGHT + weighText(content);
+
+  const score = sum === 0 ? 0 : sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+  return { label: labelFor(score), score, source: 'lexicon' };
+}
+
+/**
+ * Sentiment of an article, preferring the backend's score when the response includes one
+ */
+export function articleSentiment(item: Pick<NewsItem, 'title' | 'content' | 'sentiment_score'>): SentimentResult {
+  if (typeof item.sentiment_score === 'number' && isFinite(item.sentiment_score)) {
+    const score = Math.max(-1, Math.min(1, item.sentiment_score));
+    return { label: labelFor(score), score, source: 'backend' };
+  }
+  return scoreSentiment(item.title || '', item.content || '');
+}
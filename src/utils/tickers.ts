@@ -0,0 +1,100 @@
+/**
+ * Ticker symbol extraction from article text, driven by a symbol dictionary
+ * so articles can be linked to the securities they mention.
+ */
+
+export interface TickerSymbol {
+  symbol: string; // e.g. AAPL, BRK.B
+  name: string; // Company name shown next to the symbol
+  aliases: string[]; // Other names the company is mentioned by
+}
+
+export const TICKER_PATTERN = /^[A-Z][A-Z0-9]{0,5}(\.[A-Z])?$/;
+
+// Symbols this short are also common words or abbreviations, so they only count as $cashtags or after an exchange prefix
+const MIN_BARE_SYMBOL_LENGTH = 3;
+
+export const DEFAULT_TICKER_DICTIONARY: TickerSymbol[] = [
+  { symbol: 'AAPL', name: 'Apple', aliases: ['Apple Inc'] },
+  { symbol: 'MSFT', name: 'Microsoft', aliases: [] },
+  { symbol: 'GOOGL', name: 'Alphabet', aliases: ['Google'] },
+  { symbol: 'AMZN', name: 'Amazon', aliases: ['Amazon.com'] },
+  { symbol: 'META', name: 'Meta Platforms', aliases: ['Facebook'] },
+  { symbol: 'NVDA', name: 'Nvidia', aliases: [] },
+  { symbol: 'TSLA', name: 'Tesla', aliases: [] },
+  { symbol: 'NFLX', name: 'Netflix', aliases: [] },
+  { symbol: 'BRK.B', name: 'Berkshire Hathaway', aliases: [] },
+  { symbol: 'JPM', name: 'JPMorgan Chase', aliases: ['JPMorgan', 'JP Morgan'] },
+  { symbol: 'GS', name: 'Goldman Sachs', aliases: [] },
+  { symbol: 'MS', name: 'Morgan Stanley', aliases: [] },
+  { symbol: 'BAC', name: 'Bank of America', aliases: [] },
+  { symbol: 'WFC', name: 'Wells Fargo', aliases: [] },
+  { symbol: 'V', name: 'Visa', aliases: [] },
+  { symbol: 'MA', name: 'Mastercard', aliases: [] },
+  { symbol: 'XOM', name: 'Exxon Mobil', aliases: ['ExxonMobil', 'Exxon'] },
+  { symbol: 'CVX', name: 'Chevron', aliases: [] },
+  { symbol: 'JNJ', name: 'Johnson & Johnson', aliases: [] },
+  { symbol: 'PFE', name: 'Pfizer', aliases: [] },
+  { symbol: 'WMT', name: 'Walmart', aliases: [] },
+  { symbol: 'KO', name: 'Coca-Cola', aliases: [] },
+  { symbol: 'DIS', name: 'Walt Disney', aliases: ['Disney'] },
+  { symbol: 'INTC', name: 'Intel', aliases: [] },
+  { symbol: 'AMD', name: 'Advanced Micro Devices', aliases: [] },
+];
+
+export interface TickerText {
+  title?: string;
+  content?: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Plain text from article HTML; tags become spaces so words on either side don't merge
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&#0?39;|&apos;/g, "'");
+}
+
+/**
+ * Uppercase a symbol typed by the user; returns '' when it isn't a valid symbol
+ */
+export function normalizeTicker(value: string): string {
+  const symbol = value.trim().replace(/^\$/, '').toUpperCase();
+  return TICKER_PATTERN.test(symbol) ? symbol : '';
+}
+
+/**
+ * Symbols mentioned in an article, in dictionary order. A symbol matches as a $cashtag,
+ * after an exchange prefix like "(NASDAQ: AAPL)", as a bare uppercase word when it is long
+ * enough not to be mistaken for a regular word, or through its company name or an alias
+ * (case-sensitive, whole words).
+ * @param dictionary - Symbols to look for
+ */
+export function extractTickers(article: TickerText, dictionary: TickerSymbol[]): string[] {
+  const text = `${article.title || ''}\n${htmlToText(article.content || '')}`;
+  if (!text.trim()) return [];
+
+  return dictionary
+    .filter(entry => {
+      const symbol = escapeRegExp(entry.symbol);
+      const patterns = [
+        `\\$${symbol}\\b`,
+        `\\b(?:NYSE|NASDAQ|Nasdaq|AMEX|LSE|TSX)\\s*:\\s*${symbol}\\b`
+      ];
+      if (entry.symbol.replace('.', '').length >= MIN_BARE_SYMBOL_LENGTH) {
+        patterns.push(`(?<![\\w$.])${symbol}(?![\\w.])`);
+      }
+      if (new RegExp(patterns.join('|')).test(text)) return true;
+
+      // Names are matched as written, so "Visa" the company doesn't match "visa" the document
+      return [entry.name, ...entry.aliases]
+        .filter(Boolean)
+        .some(name => new RegExp(`(?<![\\w-])${escapeRegExp(name).replace(/ /g, '\\s+')}(?![\\w-])`).test(text));
+    })
+    .map(entry => entry.symbol);
+}